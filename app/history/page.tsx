@@ -0,0 +1,13 @@
+'use client'
+import dynamic from 'next/dynamic'
+
+const History = dynamic(() => import('@/components/SessionHistory'), { ssr: false })
+
+export default function HistoryPage() {
+  return (
+    <section className="space-y-6">
+      <h1 className="text-3xl font-semibold">历史记录与进步趋势</h1>
+      <History />
+    </section>
+  )
+}
@@ -0,0 +1,13 @@
+'use client'
+import dynamic from 'next/dynamic'
+
+const Report = dynamic(() => import('@/components/CoachingReport'), { ssr: false })
+
+export default function ReportPage() {
+  return (
+    <section className="space-y-6">
+      <h1 className="text-3xl font-semibold print:hidden">教练报告</h1>
+      <Report />
+    </section>
+  )
+}
@@ -0,0 +1,170 @@
+// components/CoachingReport.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { loadReport, ruleText, type CoachingReport as Report } from '@/lib/report/report';
+import { formatValue } from '@/lib/score/scorer';
+import { OUTCOME_LABELS } from '@/lib/ball/rim';
+import { HAND_LABELS } from '@/lib/analyze/hand';
+import { VIEW_LABELS } from '@/lib/analyze/viewpoint';
+import RadarChart from '@/components/RadarChart';
+
+// 打印时是白底黑字，屏幕上也用同样的浅色纸面，所见即所得
+const CoachingReport: React.FC = () => {
+  const [report, setReport] = useState<Report | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setReport(loadReport());
+    setLoaded(true);
+  }, []);
+
+  if (!loaded) return null;
+  if (!report) {
+    return (
+      <p className="text-slate-400 text-sm">
+        还没有报告。先在{' '}
+        <Link href="/analyze" className="text-cyan-300 hover:text-cyan-200">
+          分析页
+        </Link>{' '}
+        分析完一段视频，再点“生成报告”。
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-3 print:hidden">
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 bg-sky-500 rounded text-white text-sm"
+        >
+          打印 / 存为 PDF
+        </button>
+        <Link href="/analyze" className="px-4 py-2 bg-slate-700 rounded text-slate-100 text-sm">
+          返回分析
+        </Link>
+      </div>
+
+      <article className="bg-white text-slate-900 rounded-lg p-6 space-y-6 print:p-0 print:rounded-none">
+        {/* 抬头 */}
+        <header className="flex justify-between items-end border-b border-slate-300 pb-3">
+          <div>
+            <h2 className="text-2xl font-semibold">投篮技术报告</h2>
+            <p className="text-sm text-slate-600 mt-1">
+              {report.clipName}
+              {report.shotLabel ? ` · ${report.shotLabel}` : ''}
+              {report.hand ? ` · 投篮手：${HAND_LABELS[report.hand]}` : ''}
+              {report.view ? ` · 机位：${VIEW_LABELS[report.view]}` : ''}
+              {report.outcome ? ` · ${OUTCOME_LABELS[report.outcome]}` : ''}
+            </p>
+          </div>
+          <div className="text-right">
+            <div className="text-4xl font-bold text-sky-700">{report.total}</div>
+            <div className="text-xs text-slate-500">
+              {new Date(report.createdAt).toLocaleString('zh-CN')}
+            </div>
+          </div>
+        </header>
+
+        {/* 关键帧 */}
+        {report.keyFrames.length ? (
+          <section className="break-inside-avoid">
+            <h3 className="font-semibold mb-2">关键动作</h3>
+            <div className="grid grid-cols-3 gap-3">
+              {report.keyFrames.map((kf) => (
+                <figure key={kf.phase} className="space-y-1">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={kf.image} alt={kf.label} className="w-full rounded border border-slate-200" />
+                  <figcaption className="text-xs text-slate-600 text-center">{kf.label}</figcaption>
+                </figure>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
+        {/* 雷达图 + 大项分数 */}
+        <section className="flex items-center gap-6 break-inside-avoid">
+          <RadarChart
+            axes={report.buckets.map((b) => ({ label: b.name, value: b.score }))}
+            textColor="#334155"
+          />
+          <ul className="text-sm space-y-1">
+            {report.buckets.map((b) => (
+              <li key={b.name} className="flex justify-between gap-6">
+                <span>{b.name}</span>
+                <span className="font-semibold">{b.score}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {/* 每项测量值 vs 目标 */}
+        <section className="break-inside-avoid">
+          <h3 className="font-semibold mb-2">逐项对照</h3>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-300">
+                <th className="py-1 font-normal">项目</th>
+                <th className="py-1 font-normal">测量值</th>
+                <th className="py-1 font-normal">目标</th>
+                <th className="py-1 font-normal text-right">得分</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.buckets.map((b) => (
+                <React.Fragment key={b.name}>
+                  <tr className="bg-slate-100">
+                    <td colSpan={4} className="py-1 px-1 font-medium">
+                      {b.name}
+                    </td>
+                  </tr>
+                  {b.items.map((it) => (
+                    <tr key={it.key} className="border-b border-slate-200">
+                      <td className="py-1 pl-3">{it.label}</td>
+                      <td className="py-1">
+                        {it.measured ? formatValue(it.value, it.unit) : it.missing ?? '未检测'}
+                        {it.cm !== undefined ? (
+                          <span className="text-slate-500">
+                            {' '}
+                            ≈{it.cm.toFixed(0)}
+                            {it.unit?.endsWith('/s') ? 'cm/s' : 'cm'}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="py-1 text-slate-600">{ruleText(it.rule)}</td>
+                      <td
+                        className={`py-1 text-right font-semibold ${
+                          !it.measured ? 'text-slate-400' : it.score >= 70 ? 'text-emerald-700' : 'text-rose-700'
+                        }`}
+                      >
+                        {it.measured ? it.score : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* 建议 */}
+        <section className="break-inside-avoid">
+          <h3 className="font-semibold mb-2">训练建议</h3>
+          {report.suggestions.length ? (
+            <ol className="list-decimal pl-5 space-y-1 text-sm">
+              {report.suggestions.map((s, i) => (
+                <li key={i}>{s}</li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-slate-600">各项都达到目标，保持现在的动作。</p>
+          )}
+        </section>
+      </article>
+    </div>
+  );
+};
+
+export default CoachingReport;
@@ -1,50 +1,301 @@
 'use client'
-import React, { useState } from 'react'
-import { DEFAULT_CONFIG, type CoachConfig } from '../config/coach'
+import React, { useEffect, useState } from 'react'
+import { DEFAULT_CONFIG, type CoachConfig, type ScoreBetter, type ScoreRule, type ScoreUnit, type SmoothFilterKind } from '../config/coach'
+import { deleteProfile, listProfiles, parseProfile, saveProfile, type ProfileList } from '../lib/config/profiles'
+import { exportJSON } from '../lib/export/exporters'
+import { ConfigValidationError, validateCoachConfig } from '../config/schema'
+import { convertNominal, isDistanceUnit } from '../lib/analyze/units'
+import { MODEL_PREF_LABELS } from '../lib/pose/backend'
+import { DEFAULT_CUTOFF_HZ, DEFAULT_KALMAN, FILTER_LABELS, filterKindOf } from '../lib/filters/smoothing'
 
-// 显式列出基准键，避免构建环境的类型推断退化
-const BASELINE_KEYS = ['kneeDepth','extendSpeed','releaseAngle','wristFlex','followThrough','elbowCurve','stability','alignment'] as const
-type BaselineKey = typeof BASELINE_KEYS[number]
+const helpOf: Record<string,string> = {
+  kneeDepth: '膝关节夹角，越接近目标越好。',
+  extendSpeed: '起跳时膝盖伸展的角速度，越快分越高。',
+  releaseAngle: '出手瞬间肩-肘-腕的夹角。',
+  wristFlex: '手腕主动发力角度。',
+  followThrough: '出手后保持随挥的时间。',
+  elbowCurve: '上升过程中肘部的横向漂移（相对躯干长度），越小越好。',
+  stability: '投篮整个过程髋部的水平摆动（相对躯干长度），越小越好。',
+  alignment: '出手时髋、肩、腕偏离双脚中线的距离（相对躯干长度），越小越好。',
+  launchAngle: '球离手时速度方向和水平面的夹角。',
+  launchSpeed: '球离手时的速度，按躯干长度折算。',
+  apexHeight: '弧线最高点比出手点高多少个躯干长度。',
+  entryAngle: '球落到篮筐高度时和水平面的夹角，越陡越容易进。',
+}
+
+const BETTER_LABELS: Record<ScoreBetter,string> = {
+  closer: '越接近越好',
+  '>=|': '越大越好',
+  '<=|': '越小越好',
+}
+
+const UNIT_LABELS: Partial<Record<ScoreUnit,string>> = {
+  torso: '躯干长度', shin: '小腿长度', cm: '厘米（需校准）',
+  'torso/s': '躯干/秒', 'shin/s': '小腿/秒', 'cm/s': '厘米/秒（需校准）',
+  pct: '躯干百分比（旧）', px: '像素（旧）',
+}
+
+// 距离类规则可以换单位；老配置里的 pct/px 也留在选项里
+function unitOptions(unit:ScoreUnit):ScoreUnit[]{
+  const base:ScoreUnit[] = unit.endsWith('/s') ? ['torso/s','shin/s','cm/s'] : ['torso','shin','cm']
+  return base.includes(unit) ? base : [...base, unit]
+}
+
+const round3 = (v:number) => Number(v.toPrecision(3))
+
+// 数字输入：空串或非法值不往上抛，避免打字过程中把配置改坏
+function NumInput({ value, step, onChange }:{ value:number; step?:number; onChange:(v:number)=>void }){
+  const [text, setText] = useState(String(value))
+  useEffect(()=>{ setText(String(value)) }, [value])
+  return (
+    <input
+      type="number"
+      step={step ?? 'any'}
+      value={text}
+      onChange={e=>{
+        setText(e.target.value)
+        const v = parseFloat(e.target.value)
+        if(Number.isFinite(v)) onChange(v)
+      }}
+      className="w-20 bg-slate-800 border border-slate-600 rounded px-1 text-slate-100 text-xs"
+    />
+  )
+}
 
 export default function ConfigPanel({
-  open, value, onChange, onClose,
+  open, value, onChange: save, onClose,
 }:{
   open:boolean; value:CoachConfig; onChange:(v:CoachConfig)=>void; onClose:()=>void
 }){
+  const [showHelp, setShowHelp] = useState<string | null>(null)
+  const [{ profiles, dropped }, setProfiles] = useState<ProfileList>({ profiles: [], dropped: [] })
+  const [profileName, setProfileName] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  // 改出来的配置校验不过就不保存，问题列在这里；下次加载才发现会被整份丢掉
+  const [editError, setEditError] = useState<string[] | null>(null)
+
+  useEffect(()=>{ if(open) setProfiles(listProfiles()) }, [open])
+
   if(!open) return null
   const cfg = value
-  const defaultBaseline: any = (DEFAULT_CONFIG as any)?.scoring?.baseline || {}
-  const [showHelp, setShowHelp] = useState<string | null>(null)
-  const helpOf: Record<string,string> = {
-    kneeDepth: '膝关节夹角，越接近目标越好。',
-    extendSpeed: '起跳时膝盖伸展的角速度，越快分越高。',
-    releaseAngle: '出手瞬间前臂与地面的夹角。',
-    wristFlex: '手腕主动发力角度。',
-    followThrough: '出手后保持随挥的时间。',
-    elbowCurve: '出手过程中肘部的横向漂移百分比，越小越好。',
-    stability: '投篮整个过程身体重心的水平摆动百分比，越小越好。',
-    alignment: '脚、髋、肩、腕的投篮方向对齐度，越小越好。',
+
+  const onChange = (next:CoachConfig) => {
+    try{
+      save(validateCoachConfig(next))
+      setEditError(null)
+    }catch(err){
+      setEditError(err instanceof ConfigValidationError ? err.issues : [String(err)])
+    }
+  }
+
+  const setRule = (bi:number, ii:number, patch:Partial<ScoreRule>) => {
+    onChange({
+      ...cfg,
+      weights: cfg.weights.map((b,i)=> i!==bi ? b : {
+        ...b,
+        items: b.items.map((it,j)=> j!==ii ? it : { ...it, rule: { ...it.rule, ...patch } }),
+      }),
+    })
   }
+  const setItemWeight = (bi:number, ii:number, weight:number) => {
+    onChange({
+      ...cfg,
+      weights: cfg.weights.map((b,i)=> i!==bi ? b : {
+        ...b,
+        items: b.items.map((it,j)=> j!==ii ? it : { ...it, weight }),
+      }),
+    })
+  }
+  const setBucketWeight = (bi:number, weight:number) => {
+    onChange({ ...cfg, weights: cfg.weights.map((b,i)=> i!==bi ? b : { ...b, weight }) })
+  }
+  // 换单位时按大致身材比例把目标值、容差一起换过去，教练再按需要微调
+  const setUnit = (bi:number, ii:number, rule:ScoreRule, unit:ScoreUnit) => {
+    const from = rule.unit!
+    const target = convertNominal(rule.target, from, unit)
+    const tolerance = convertNominal(rule.tolerance, from, unit)
+    setRule(bi, ii, Number.isFinite(target) && Number.isFinite(tolerance)
+      ? { unit, target: round3(target), tolerance: round3(tolerance) }
+      : { unit })
+  }
+  const setSmooth = (patch:Partial<CoachConfig['smooth']>) => {
+    onChange({ ...cfg, smooth: { ...cfg.smooth, ...patch } })
+  }
+
+  const handleImport = async (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0]
+    e.target.value = ''
+    if(!f) return
+    try{
+      const p = parseProfile(await f.text(), f.name.replace(/\.json$/i,''))
+      setProfiles(saveProfile(p.name, p.config))
+      onChange(p.config)
+      setImportError(null)
+    }catch(err){
+      setImportError(err instanceof ConfigValidationError ? err.issues.join('\n') : String(err))
+    }
+  }
+
   return (
-    <div className="space-y-3">
-      <div className="text-slate-200 font-semibold">打分基准设置</div>
-      <p className="text-slate-400 text-sm">这里的参数会直接影响最终得分。你可以把实际测出来的数值填到基准里。</p>
-      <div className="grid grid-cols-2 gap-3">
-        {BASELINE_KEYS.map(k=>{
-          const rule = (cfg as any).weights?.flatMap((b:any)=>b.items).find((it:any)=>it.key===k)?.rule
-          const baseline = defaultBaseline[k] ?? rule?.target ?? 0
-          const tolerance = rule?.tolerance ?? 0
-          return (
-            <div key={k} className="bg-slate-700/50 rounded p-2">
-              <div className="flex items-center justify-between mb-1">
-                <div className="text-slate-100 text-sm">{helpOf[k] ? `${helpOf[k].split('，')[0]}` : k}</div>
-                <button className="text-xs text-cyan-300" onClick={()=>setShowHelp(showHelp===k?null:k)}>说明</button>
-              </div>
-              <div className="text-xs text-slate-400">目标: {baseline} / 容差: {tolerance}</div>
-            </div>
-          )
-        })}
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+      <div className="flex justify-between items-center">
+        <div className="text-slate-200 font-semibold">打分基准设置</div>
+        <button className="text-slate-300 text-sm" onClick={onClose}>关闭</button>
+      </div>
+      <p className="text-slate-400 text-sm">这里的参数会直接影响最终得分，改完立刻重新打分，并保存在本机浏览器里。</p>
+      {editError ? (
+        <div className="text-xs text-rose-400 whitespace-pre-wrap">这次修改没有保存：{editError.join('\n')}</div>
+      ) : null}
+
+      {/* 方案 */}
+      <div className="bg-slate-800/60 rounded p-2 space-y-2">
+        <div className="text-slate-100 text-sm">配置方案</div>
+        <div className="flex gap-2 flex-wrap items-center">
+          <input
+            value={profileName}
+            onChange={e=>setProfileName(e.target.value)}
+            placeholder="方案名"
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-100"
+          />
+          <button
+            className="text-xs px-2 py-1 rounded bg-emerald-600 text-white disabled:opacity-50"
+            disabled={!profileName.trim()}
+            onClick={()=>setProfiles(saveProfile(profileName.trim(), cfg))}
+          >保存当前</button>
+          <label className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-100 cursor-pointer">
+            导入 JSON
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport}/>
+          </label>
+          <button className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-100" onClick={()=>onChange(DEFAULT_CONFIG)}>恢复默认</button>
+        </div>
+        {importError ? <div className="text-xs text-rose-400 whitespace-pre-wrap">导入失败：{importError}</div> : null}
+        {dropped.map(d=>(
+          <div key={d.name} className="text-xs text-amber-300 whitespace-pre-wrap">
+            方案“{d.name}”读不出来，没有列出（仍保存在浏览器里）：{d.issues.join('；')}
+          </div>
+        ))}
+        {profiles.map(p=>(
+          <div key={p.name} className="flex justify-between items-center text-xs text-slate-300">
+            <span>{p.name} <span className="text-slate-500">{p.savedAt.slice(0,10)}</span></span>
+            <span className="space-x-2">
+              <button className="text-cyan-300" onClick={()=>onChange(p.config)}>使用</button>
+              <button className="text-cyan-300" onClick={()=>exportJSON(p, `${p.name}.json`)}>导出</button>
+              <button className="text-rose-300" onClick={()=>setProfiles(deleteProfile(p.name))}>删除</button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* 姿态模型 */}
+      <div className="bg-slate-800/60 rounded p-2 text-sm text-slate-100 flex items-center gap-2 flex-wrap">
+        姿态模型偏好
+        <select
+          value={cfg.modelPreference}
+          onChange={e=>onChange({ ...cfg, modelPreference: e.target.value as CoachConfig['modelPreference'] })}
+          className="bg-slate-800 border border-slate-600 rounded px-1 text-slate-100 text-xs"
+        >
+          {(Object.keys(MODEL_PREF_LABELS) as CoachConfig['modelPreference'][]).map(k=><option key={k} value={k}>{MODEL_PREF_LABELS[k]}</option>)}
+        </select>
+        <span className="text-xs text-slate-400">MoveNet 能同时识别多人，但没有手指、脚跟，手腕下压等项不打分</span>
+      </div>
+
+      {/* 平滑 */}
+      <div className="bg-slate-800/60 rounded p-2">
+        <div className="text-slate-100 text-sm mb-1 flex items-center gap-2">
+          关键点平滑
+          <select
+            value={filterKindOf(cfg.smooth)}
+            onChange={e=>setSmooth({ filter: e.target.value as SmoothFilterKind })}
+            className="bg-slate-800 border border-slate-600 rounded px-1 text-slate-100 text-xs"
+          >
+            {(Object.keys(FILTER_LABELS) as SmoothFilterKind[]).map(k=><option key={k} value={k}>{FILTER_LABELS[k]}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-3 text-xs text-slate-300 flex-wrap">
+          {filterKindOf(cfg.smooth) === 'kalman' ? (
+            <>
+              <label className="flex items-center gap-1">加速度噪声 <NumInput value={cfg.smooth.processNoise ?? DEFAULT_KALMAN.processNoise} step={100} onChange={v=>setSmooth({ processNoise: v })}/>px/s²</label>
+              <label className="flex items-center gap-1">测量噪声 <NumInput value={cfg.smooth.measurementNoise ?? DEFAULT_KALMAN.measurementNoise} step={0.5} onChange={v=>setSmooth({ measurementNoise: v })}/>px</label>
+            </>
+          ) : (
+            <>
+              <label className="flex items-center gap-1">minCutoff <NumInput value={cfg.smooth.minCutoff} step={0.05} onChange={v=>setSmooth({ minCutoff: v })}/></label>
+              <label className="flex items-center gap-1">beta <NumInput value={cfg.smooth.beta} step={0.01} onChange={v=>setSmooth({ beta: v })}/></label>
+              <label className="flex items-center gap-1">dCutoff <NumInput value={cfg.smooth.dCutoff} step={0.1} onChange={v=>setSmooth({ dCutoff: v })}/></label>
+            </>
+          )}
+          {filterKindOf(cfg.smooth) === 'zeroPhase' ? (
+            <label className="flex items-center gap-1">截止频率 <NumInput value={cfg.smooth.cutoffHz ?? DEFAULT_CUTOFF_HZ} step={0.5} onChange={v=>setSmooth({ cutoffHz: v })}/>Hz</label>
+          ) : null}
+        </div>
+        {filterKindOf(cfg.smooth) === 'zeroPhase' ? (
+          <div className="text-xs text-slate-400 mt-1">识别过程中先用上面的 OneEuro 参数预览，整段识别完再前后双向平滑一遍，出手时刻没有滞后。</div>
+        ) : null}
       </div>
+
+      {/* 动作模板 */}
+      <div className="bg-slate-800/60 rounded p-2 space-y-1">
+        <div className="text-slate-100 text-sm">动作模板（在分析结果里“把这一次存为模板”）</div>
+        {cfg.templates?.length ? cfg.templates.map(t=>(
+          <div key={t.name} className="flex justify-between items-center text-xs text-slate-300">
+            <span>{t.name} <span className="text-slate-500">{t.hand === 'left' ? '左手' : '右手'} · {t.frames.length} 帧 · {t.createdAt.slice(0,10)}</span></span>
+            <button
+              className="text-rose-300"
+              onClick={()=>onChange({ ...cfg, templates: cfg.templates!.filter(x=>x.name!==t.name) })}
+            >删除</button>
+          </div>
+        )) : <div className="text-xs text-slate-500">还没有模板</div>}
+      </div>
+
+      {/* 各 bucket */}
+      {cfg.weights.map((bucket,bi)=>(
+        <div key={bucket.name} className="bg-slate-800/60 rounded p-2 space-y-2">
+          <div className="flex justify-between items-center">
+            <div className="text-slate-100 text-sm">{bucket.name}</div>
+            <label className="flex items-center gap-1 text-xs text-slate-300">
+              权重 <NumInput value={bucket.weight} step={0.01} onChange={v=>setBucketWeight(bi, v)}/>
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {bucket.items.map((it,ii)=>(
+              <div key={it.key} className="bg-slate-700/50 rounded p-2 space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="text-slate-100 text-sm">
+                    {it.label}
+                    {isDistanceUnit(it.rule.unit) ? (
+                      <select
+                        value={it.rule.unit}
+                        onChange={e=>setUnit(bi, ii, it.rule, e.target.value as ScoreUnit)}
+                        className="ml-1 bg-slate-800 border border-slate-600 rounded px-1 text-slate-300 text-xs"
+                      >
+                        {unitOptions(it.rule.unit!).map(u=>(
+                          <option key={u} value={u}>{UNIT_LABELS[u] ?? u}</option>
+                        ))}
+                      </select>
+                    ) : it.rule.unit ? <span className="text-slate-400 text-xs"> ({it.rule.unit})</span> : null}
+                  </div>
+                  <button className="text-xs text-cyan-300" onClick={()=>setShowHelp(showHelp===it.key?null:it.key)}>说明</button>
+                </div>
+                {showHelp===it.key ? <div className="text-xs text-slate-400">{helpOf[it.key] ?? it.key}</div> : null}
+                <div className="flex gap-2 flex-wrap text-xs text-slate-300">
+                  <label className="flex items-center gap-1">目标 <NumInput value={it.rule.target} onChange={v=>setRule(bi, ii, { target: v })}/></label>
+                  <label className="flex items-center gap-1">容差 <NumInput value={it.rule.tolerance} onChange={v=>setRule(bi, ii, { tolerance: v })}/></label>
+                  <label className="flex items-center gap-1">权重 <NumInput value={it.weight} step={0.05} onChange={v=>setItemWeight(bi, ii, v)}/></label>
+                  <select
+                    value={it.rule.better ?? 'closer'}
+                    onChange={e=>setRule(bi, ii, { better: e.target.value as ScoreBetter })}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 text-slate-100"
+                  >
+                    {(Object.keys(BETTER_LABELS) as ScoreBetter[]).map(b=>(
+                      <option key={b} value={b}>{BETTER_LABELS[b]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
     </div>
   )
 }
@@ -0,0 +1,145 @@
+// components/FilterDebug.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { PoseResult } from '@/lib/pose/poseEngine';
+import type { SmoothConfig } from '@/config/coach';
+import type { ShootingHand } from '@/lib/analyze/hand';
+import { jointLabel } from '@/lib/pose/landmarks';
+import { FILTER_LABELS, filterKindOf } from '@/lib/filters/smoothing';
+import TrendChart from '@/components/TrendChart';
+
+type Props = {
+  // 当前选中这一次投篮的时序（带平滑前的 raw）
+  seq: PoseResult[];
+  hand: ShootingHand | null;
+  smooth: SmoothConfig;
+};
+
+type Axis = 'x' | 'y';
+
+const JOINTS = ['wrist', 'elbow', 'shoulder', 'hip', 'knee', 'ankle'];
+
+type Pt = { x: number; y: number; ts: number };
+
+// 关节速度最大的那一帧的时间；出手前后手腕最快，平滑滞后多少一眼就能看出来
+function peakSpeedTs(pts: (Pt | null)[]): number | null {
+  let best: number | null = null;
+  let bestSpeed = -1;
+  let prev: Pt | null = null;
+  for (const p of pts) {
+    if (!p) continue;
+    if (prev && p.ts > prev.ts) {
+      const v = Math.hypot(p.x - prev.x, p.y - prev.y) / (p.ts - prev.ts);
+      if (v > bestSpeed) {
+        bestSpeed = v;
+        best = p.ts;
+      }
+    }
+    prev = p;
+  }
+  return best;
+}
+
+const FilterDebug: React.FC<Props> = ({ seq, hand, smooth }) => {
+  const [open, setOpen] = useState(false);
+  const [joint, setJoint] = useState('wrist');
+  const [axis, setAxis] = useState<Axis>('y');
+  const name = `${hand ?? 'right'}_${joint}`;
+
+  const curves = useMemo(() => {
+    const pick = (kps: PoseResult['keypoints'] | undefined, ts: number): Pt | null => {
+      const k = kps?.find((x) => x.name === name);
+      return k ? { x: k.x, y: k.y, ts } : null;
+    };
+    const raw = seq.map((p) => pick(p.raw, p.ts));
+    const filtered = seq.map((p) => pick(p.keypoints, p.ts));
+    const all = [...raw, ...filtered].filter((p): p is Pt => !!p).map((p) => p[axis]);
+    if (!raw.some((p) => p) || !all.length) return null;
+    const lo = Math.min(...all);
+    const hi = Math.max(...all);
+    const pad = Math.max(1, (hi - lo) * 0.05);
+    const rawPeak = peakSpeedTs(raw);
+    const filteredPeak = peakSpeedTs(filtered);
+    return {
+      raw: raw.map((p) => (p ? p[axis] : null)),
+      filtered: filtered.map((p) => (p ? p[axis] : null)),
+      yMin: Math.floor(lo - pad),
+      yMax: Math.ceil(hi + pad),
+      lagMs: rawPeak !== null && filteredPeak !== null ? filteredPeak - rawPeak : null,
+    };
+  }, [seq, name, axis]);
+
+  const t0 = seq[0]?.ts ?? 0;
+
+  return (
+    <div className="bg-slate-900/60 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="text-slate-100 font-medium">
+          平滑调试
+          <span className="text-xs text-slate-400 ml-2">当前滤波器：{FILTER_LABELS[filterKindOf(smooth)]}</span>
+        </div>
+        <button onClick={() => setOpen((v) => !v)} className="px-3 py-1 rounded bg-slate-700 text-slate-100 text-sm">
+          {open ? '收起' : '展开'}
+        </button>
+      </div>
+      {open ? (
+        <>
+          <div className="flex items-center gap-3 text-sm text-slate-300 flex-wrap">
+            <label className="flex items-center gap-1">
+              关节
+              <select
+                value={joint}
+                onChange={(e) => setJoint(e.target.value)}
+                className="bg-slate-800 text-slate-100 rounded px-2 py-1"
+              >
+                {JOINTS.map((j) => (
+                  <option key={j} value={j}>
+                    {jointLabel(`${hand ?? 'right'}_${j}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              坐标
+              <select
+                value={axis}
+                onChange={(e) => setAxis(e.target.value as Axis)}
+                className="bg-slate-800 text-slate-100 rounded px-2 py-1"
+              >
+                <option value="y">纵向 y（像素，向下为正）</option>
+                <option value="x">横向 x（像素）</option>
+              </select>
+            </label>
+          </div>
+          {!curves ? (
+            <p className="text-xs text-slate-400">这一次没有这个关节的原始数据。</p>
+          ) : (
+            <>
+              <TrendChart
+                xLabels={seq.map((p) => `${((p.ts - t0) / 1000).toFixed(1)}s`)}
+                series={[
+                  { label: '原始', color: '#94a3b8', values: curves.raw },
+                  { label: '平滑后', color: '#34d399', values: curves.filtered },
+                ]}
+                yMin={curves.yMin}
+                yMax={curves.yMax}
+                dots={false}
+              />
+              <p className="text-xs text-slate-400">
+                {curves.lagMs === null
+                  ? '帧数太少，算不出速度峰值。'
+                  : `速度峰值时刻：平滑后比原始${
+                      curves.lagMs > 0 ? `晚 ${curves.lagMs.toFixed(0)}ms` : curves.lagMs < 0 ? `早 ${(-curves.lagMs).toFixed(0)}ms` : '没有偏移'
+                    }。`}
+                因果滤波（One Euro、卡尔曼）越平滑，出手附近的曲线越往后拖；零相位平滑没有这个问题，但要整段识别完才算得出来。
+              </p>
+            </>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default FilterDebug;
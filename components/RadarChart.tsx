@@ -3,63 +3,76 @@
 
 import React from 'react';
 
+export type RadarAxis = {
+  label: string;
+  value: number; // 0~100
+};
+
 type Props = {
-  lower: number;
-  upper: number;
-  balance: number;
+  // 一个 bucket 一个轴，顺序就是 CoachConfig.weights 的顺序
+  axes: RadarAxis[];
+  // 文字颜色，打印报告是白底时传深色
+  textColor?: string;
 };
 
-const RadarChart: React.FC<Props> = ({ lower, upper, balance }) => {
-  // 这版先来个最简 SVG，重点是类型和导出别再报错
-  // 三个点：下肢(0°)、上肢(120°)、平衡(240°)
+const RadarChart: React.FC<Props> = ({ axes, textColor = '#e2e8f0' }) => {
   const max = 100;
   const r = 80;
-  const cx = 90;
-  const cy = 90;
+  const cx = 110;
+  const cy = 110;
+  const n = Math.max(axes.length, 3);
 
-  const toPoint = (value: number, angleDeg: number) => {
+  // 第一个轴朝上，顺时针排
+  const angleOf = (i: number) => -Math.PI / 2 + (i * 2 * Math.PI) / n;
+
+  const toPoint = (value: number, i: number, rr = r) => {
     const ratio = Math.max(0, Math.min(1, value / max));
-    const rad = (angleDeg * Math.PI) / 180;
-    const rr = r * ratio;
+    const a = angleOf(i);
     return {
-      x: cx + rr * Math.cos(rad),
-      y: cy + rr * Math.sin(rad),
+      x: cx + rr * ratio * Math.cos(a),
+      y: cy + rr * ratio * Math.sin(a),
     };
   };
 
-  const p1 = toPoint(lower, -90); // 上
-  const p2 = toPoint(upper, 30); // 右下
-  const p3 = toPoint(balance, 150); // 左下
+  const ring = (ratio: number) =>
+    Array.from({ length: n }, (_, i) => toPoint(max * ratio, i))
+      .map((p) => `${p.x},${p.y}`)
+      .join(' ');
+
+  const values = axes.map((ax, i) => toPoint(ax.value, i));
 
   return (
-    <svg width={180} height={180} className="text-slate-200">
-      {/* 背景三角 */}
-      <polygon
-        points={`${cx},${cy - r} ${cx + r * Math.cos(Math.PI / 6)},${cy + r * Math.sin(
-          Math.PI / 6
-        )} ${cx - r * Math.cos(Math.PI / 6)},${cy + r * Math.sin(Math.PI / 6)}`}
-        fill="transparent"
-        stroke="rgba(148, 163, 184, 0.35)"
-      />
+    <svg width={220} height={230} className="text-slate-200">
+      {/* 背景网格 */}
+      {[1, 0.5].map((ratio) => (
+        <polygon
+          key={ratio}
+          points={ring(ratio)}
+          fill="transparent"
+          stroke="rgba(148, 163, 184, 0.35)"
+        />
+      ))}
       {/* 当前值 */}
-      <polygon
-        points={`${p1.x},${p1.y} ${p2.x},${p2.y} ${p3.x},${p3.y}`}
-        fill="rgba(56, 189, 248, 0.25)"
-        stroke="rgba(56, 189, 248, 0.8)"
-      />
+      {values.length >= 3 ? (
+        <polygon
+          points={values.map((p) => `${p.x},${p.y}`).join(' ')}
+          fill="rgba(56, 189, 248, 0.25)"
+          stroke="rgba(56, 189, 248, 0.8)"
+        />
+      ) : null}
       {/* 文本 */}
-      <text x={cx} y={18} textAnchor="middle" fontSize="12" fill="#e2e8f0">
+      <text x={cx} y={12} textAnchor="middle" fontSize="12" fill={textColor}>
         投篮姿态评分雷达图
       </text>
-      <text x={cx} y={cy - r - 6} textAnchor="middle" fontSize="11" fill="#e2e8f0">
-        下肢
-      </text>
-      <text x={cx + r * Math.cos(Math.PI / 6) + 4} y={cy + r * Math.sin(Math.PI / 6)} fontSize="11" fill="#e2e8f0">
-        上肢
-      </text>
-      <text x={cx - r * Math.cos(Math.PI / 6) - 28} y={cy + r * Math.sin(Math.PI / 6)} fontSize="11" fill="#e2e8f0">
-        平衡
-      </text>
+      {axes.map((ax, i) => {
+        const p = toPoint(max, i, r + 14);
+        const anchor = Math.abs(p.x - cx) < 4 ? 'middle' : p.x > cx ? 'start' : 'end';
+        return (
+          <text key={ax.label} x={p.x} y={p.y + 4} textAnchor={anchor} fontSize="11" fill={textColor}>
+            {ax.label}
+          </text>
+        );
+      })}
     </svg>
   );
 };
@@ -0,0 +1,179 @@
+// components/SessionHistory.tsx
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  clearSessions,
+  deleteSession,
+  listSessions,
+  weeklyTrend,
+  type SessionRecord,
+} from '@/lib/history/sessionStore';
+import { OUTCOME_LABELS } from '@/lib/ball/rim';
+import { HAND_LABELS } from '@/lib/analyze/hand';
+import TrendChart, { type TrendSeries } from '@/components/TrendChart';
+
+const TOTAL_COLOR = 'rgba(56, 189, 248, 0.95)';
+const BUCKET_COLORS = ['#34d399', '#fbbf24', '#f472b6', '#a78bfa', '#fb923c', '#94a3b8'];
+
+const SessionHistory: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // 删除、清空失败的原因；列表本身还在，提示一下就行
+  const [actionError, setActionError] = useState('');
+
+  const reload = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setError('');
+    } catch (err: any) {
+      setError(err?.message ?? String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const weeks = useMemo(() => weeklyTrend(sessions), [sessions]);
+
+  // 所有出现过的 bucket，换过配置时名字可能不一样，都画出来
+  const bucketNames = useMemo(() => {
+    const names: string[] = [];
+    for (const s of sessions) {
+      for (const b of s.buckets) if (!names.includes(b.name)) names.push(b.name);
+    }
+    return names;
+  }, [sessions]);
+
+  const series: TrendSeries[] = useMemo(
+    () => [
+      { label: '总分', color: TOTAL_COLOR, values: weeks.map((w) => w.total) },
+      ...bucketNames.map((name, i) => ({
+        label: name,
+        color: BUCKET_COLORS[i % BUCKET_COLORS.length],
+        values: weeks.map((w) => w.buckets[name] ?? null),
+      })),
+    ],
+    [weeks, bucketNames]
+  );
+
+  // 用了不止一个配置版本，提醒一下分数口径不完全一样
+  const versions = useMemo(
+    () => Array.from(new Set(sessions.map((s) => s.configVersion))).sort((a, b) => a - b),
+    [sessions]
+  );
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setActionError('');
+    } catch (err: any) {
+      setActionError(`删除失败：${err?.message ?? String(err)}`);
+    }
+    reload();
+  };
+
+  const handleClear = async () => {
+    if (!confirm('确定清空全部历史记录？')) return;
+    try {
+      await clearSessions();
+      setActionError('');
+    } catch (err: any) {
+      setActionError(`清空失败：${err?.message ?? String(err)}`);
+    }
+    reload();
+  };
+
+  if (loading) return <p className="text-slate-400 text-sm">读取历史记录…</p>;
+  if (error) return <p className="text-rose-300 text-sm">读取历史记录失败：{error}</p>;
+
+  if (!sessions.length) {
+    return (
+      <p className="text-slate-400 text-sm">
+        还没有记录。去{' '}
+        <Link href="/analyze" className="text-cyan-300 hover:text-cyan-200">
+          分析页
+        </Link>{' '}
+        跑完一段视频，结果会自动记到这里（只存在本机浏览器里）。
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-950/40 border border-slate-800 rounded-lg p-4 space-y-3">
+        <h2 className="text-lg font-semibold">每周平均分</h2>
+        <TrendChart xLabels={weeks.map((w) => w.week.slice(5))} series={series} />
+        <p className="text-xs text-slate-500">
+          共 {sessions.length} 次分析，{weeks.length} 周；横轴是每周周一的日期。
+          {versions.length > 1
+            ? ` 期间换过打分配置（版本 ${versions.join(' / ')}），前后分数口径不完全一致。`
+            : ''}
+        </p>
+      </div>
+
+      <div className="bg-slate-950/40 border border-slate-800 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">全部记录</h2>
+          <button onClick={handleClear} className="text-xs text-rose-300 hover:text-rose-200">
+            清空
+          </button>
+        </div>
+        {actionError ? <p className="text-rose-300 text-xs">{actionError}</p> : null}
+        <table className="w-full text-sm">
+          <thead className="text-slate-400 text-left">
+            <tr>
+              <th className="py-1 font-normal">时间</th>
+              <th className="py-1 font-normal">视频</th>
+              <th className="py-1 font-normal">总分</th>
+              <th className="py-1 font-normal">分项</th>
+              <th className="py-1 font-normal">结果</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {sessions
+              .slice()
+              .reverse()
+              .map((s) => (
+                <tr key={s.id} className="border-t border-slate-800 align-top">
+                  <td className="py-1 pr-2 whitespace-nowrap text-slate-300">
+                    {new Date(s.createdAt).toLocaleString('zh-CN')}
+                  </td>
+                  <td className="py-1 pr-2 text-slate-300 max-w-[12rem] truncate">
+                    {s.clipName}
+                    {s.shotCount && s.shotCount > 1 ? (
+                      <span className="text-xs text-slate-500">（{s.shotCount} 次平均）</span>
+                    ) : null}
+                  </td>
+                  <td className="py-1 pr-2 font-semibold">{s.total}</td>
+                  <td className="py-1 pr-2 text-xs text-slate-400">
+                    {s.buckets.map((b) => `${b.name} ${b.score}`).join('，')}
+                  </td>
+                  <td className="py-1 pr-2 text-xs text-slate-400 whitespace-nowrap">
+                    {s.outcome ? OUTCOME_LABELS[s.outcome] : '—'}
+                    {s.hand ? ` · ${HAND_LABELS[s.hand]}` : ''}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => handleDelete(s.id)}
+                      className="text-xs text-slate-500 hover:text-rose-300"
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
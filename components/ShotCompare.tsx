@@ -0,0 +1,271 @@
+// components/ShotCompare.tsx
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { PoseResult } from '@/lib/pose/poseEngine';
+import type { CoachConfig } from '@/config/coach';
+import type { SampleProgress } from '@/lib/video/frameSampler';
+import { analyzeShots } from '@/lib/analyze/shots';
+import { HAND_LABELS, type ShootingHand } from '@/lib/analyze/hand';
+import { JOINT_ANGLE_KEYS, JOINT_ANGLE_LABELS } from '@/lib/analyze/kinematics';
+import { compareMotions } from '@/lib/compare/compare';
+import { normalizePose } from '@/lib/compare/normalize';
+import { parseReferenceJSON, type ReferenceMotion } from '@/lib/compare/reference';
+import { drawSkeleton } from '@/lib/video/overlay';
+import TrendChart from '@/components/TrendChart';
+
+type Props = {
+  // 当前选中这一次投篮的时序
+  player: PoseResult[];
+  playerHand: ShootingHand | null;
+  coach: CoachConfig;
+  // 视频文件要现场识别，由分析页提供（要用它加载好的姿态后端）
+  loadVideo: (file: File, onProgress: (p: SampleProgress) => void) => Promise<PoseResult[]>;
+  disabled?: boolean;
+};
+
+const JOINT_COLORS = ['#34d399', '#10b981', '#fbbf24', '#f59e0b', '#f472b6', '#ec4899'];
+const CANVAS_W = 240;
+const CANVAS_H = 320;
+
+// 归一化坐标（躯干长度，髋中点为原点）→ 画布像素
+function drawNormalized(ctx: CanvasRenderingContext2D, p: PoseResult | undefined, hand: ShootingHand | null) {
+  if (!p) return;
+  const s = CANVAS_H / 5.5;
+  const kps = normalizePose(p).map((k) => ({ ...k, x: CANVAS_W / 2 + k.x * s, y: CANVAS_H * 0.5 + k.y * s }));
+  drawSkeleton(ctx, kps, hand);
+}
+
+const ShotCompare: React.FC<Props> = ({ player, playerHand, coach, loadVideo, disabled }) => {
+  const [reference, setReference] = useState<ReferenceMotion | null>(null);
+  const [loading, setLoading] = useState<SampleProgress | null>(null);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<'side' | 'overlay'>('side');
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const leftRef = useRef<HTMLCanvasElement | null>(null);
+  const rightRef = useRef<HTMLCanvasElement | null>(null);
+
+  // 参考视频里可能有好几次投篮，取得分最高的一次
+  const refShot = useMemo(() => {
+    if (!reference) return null;
+    const ss = analyzeShots(reference.seq, coach);
+    const best = ss.shots.reduce((a, b) => (b.result.total > a.result.total ? b : a), ss.shots[0]);
+    if (!best) return null;
+    return {
+      seq: reference.seq.slice(best.startIdx, best.endIdx + 1),
+      hand: best.result.hand ?? null,
+    };
+  }, [reference, coach]);
+
+  const cmp = useMemo(
+    () =>
+      refShot
+        ? compareMotions(player, refShot.seq, {
+            player: playerHand ?? undefined,
+            reference: refShot.hand ?? undefined,
+          })
+        : null,
+    [player, playerHand, refShot]
+  );
+
+  useEffect(() => {
+    setStep(0);
+    setPlaying(false);
+  }, [cmp]);
+
+  // 播放：每帧走一步
+  useEffect(() => {
+    if (!playing || !cmp) return;
+    const id = window.setInterval(() => {
+      setStep((s) => {
+        if (s >= cmp.steps.length - 1) {
+          setPlaying(false);
+          return s;
+        }
+        return s + 1;
+      });
+    }, 1000 / 30);
+    return () => window.clearInterval(id);
+  }, [playing, cmp]);
+
+  // 画当前对齐步
+  useEffect(() => {
+    if (!cmp) return;
+    const st = cmp.steps[Math.min(step, cmp.steps.length - 1)];
+    if (!st) return;
+    const left = leftRef.current?.getContext('2d');
+    const right = rightRef.current?.getContext('2d');
+    if (left) {
+      left.clearRect(0, 0, CANVAS_W, CANVAS_H);
+      if (mode === 'overlay') {
+        // 参考画淡一点压在底下
+        left.globalAlpha = 0.4;
+        drawNormalized(left, cmp.reference[st.j], playerHand);
+        left.globalAlpha = 1;
+      }
+      drawNormalized(left, player[st.i], playerHand);
+    }
+    if (right && mode === 'side') {
+      right.clearRect(0, 0, CANVAS_W, CANVAS_H);
+      drawNormalized(right, cmp.reference[st.j], playerHand);
+    }
+  }, [cmp, step, mode, player, playerHand]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = '';
+    if (!f) return;
+    setError('');
+    try {
+      if (f.name.toLowerCase().endsWith('.json') || f.type === 'application/json') {
+        setReference(parseReferenceJSON(await f.text(), f.name));
+      } else {
+        setLoading({ done: 0, total: 0 });
+        const seq = await loadVideo(f, setLoading);
+        if (seq.length < 3) throw new Error('参考视频里没识别到完整的人');
+        setReference({ name: f.name, seq });
+      }
+    } catch (err: any) {
+      setError(err?.message ?? String(err));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const t0 = player[0]?.ts ?? 0;
+  const current = cmp?.steps[Math.min(step, cmp.steps.length - 1)];
+
+  return (
+    <div className="bg-slate-900/60 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="text-slate-100 font-medium">参考动作对比</div>
+        <label
+          className={`px-3 py-1 rounded text-sm ${
+            disabled || loading ? 'bg-slate-800 text-slate-500' : 'bg-slate-700 text-slate-100 cursor-pointer'
+          }`}
+        >
+          {reference ? '换一个参考' : '载入参考动作'}
+          <input
+            type="file"
+            accept="video/*,.json,application/json"
+            className="hidden"
+            disabled={disabled || !!loading}
+            onChange={handleFile}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-slate-400">
+        可以选示范投篮的视频，或者之前“导出 → 完整分析 JSON”存下的文件（比如球员自己最好的一次）。
+        两边节奏不同也会自动按动作对齐。
+      </p>
+
+      {loading ? (
+        <p className="text-xs text-slate-400">
+          识别参考视频 {loading.done} / {loading.total || '…'} 帧
+        </p>
+      ) : null}
+      {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+
+      {reference && !cmp && !loading ? (
+        <p className="text-xs text-slate-400">参考动作或当前投篮的帧太少，没法对齐。</p>
+      ) : null}
+
+      {cmp && current ? (
+        <>
+          <div className="text-xs text-slate-400">
+            参考：{reference?.name}
+            {refShot?.hand ? `（${HAND_LABELS[refShot.hand]}）` : ''}
+            {cmp.mirrored ? ' · 投篮手不同，已左右镜像' : ''} · 对齐后平均角度差 {cmp.cost.toFixed(1)}°
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            {(['side', 'overlay'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded ${mode === m ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-300'}`}
+              >
+                {m === 'side' ? '并排' : '叠加'}
+              </button>
+            ))}
+            <button
+              onClick={() => {
+                if (step >= cmp.steps.length - 1) setStep(0);
+                setPlaying((p) => !p);
+              }}
+              className="px-3 py-1 rounded bg-slate-700 text-slate-100"
+            >
+              {playing ? '暂停' : '播放'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={cmp.steps.length - 1}
+              value={step}
+              onChange={(e) => {
+                setPlaying(false);
+                setStep(Number(e.target.value));
+              }}
+              className="flex-1"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <figure className="space-y-1">
+              <canvas ref={leftRef} width={CANVAS_W} height={CANVAS_H} className="bg-black rounded" />
+              <figcaption className="text-xs text-slate-400 text-center">
+                {mode === 'overlay' ? '球员（实线）/ 参考（淡色）' : '球员'}
+              </figcaption>
+            </figure>
+            {mode === 'side' ? (
+              <figure className="space-y-1">
+                <canvas ref={rightRef} width={CANVAS_W} height={CANVAS_H} className="bg-black rounded" />
+                <figcaption className="text-xs text-slate-400 text-center">参考</figcaption>
+              </figure>
+            ) : null}
+            <table className="text-xs text-slate-300 self-start">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="text-left font-normal pr-3">关节</th>
+                  <th className="text-right font-normal pr-3">此刻</th>
+                  <th className="text-right font-normal">平均</th>
+                </tr>
+              </thead>
+              <tbody>
+                {JOINT_ANGLE_KEYS.map((k) => (
+                  <tr key={k}>
+                    <td className="pr-3">{JOINT_ANGLE_LABELS[k]}</td>
+                    <td className="text-right pr-3">
+                      {current.diff[k] !== undefined ? `${current.diff[k]! > 0 ? '+' : ''}${current.diff[k]!.toFixed(0)}°` : '-'}
+                    </td>
+                    <td className="text-right">
+                      {cmp.meanAbsDiff[k] !== undefined ? `${cmp.meanAbsDiff[k]!.toFixed(0)}°` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <div className="text-xs text-slate-400 mb-1">各关节角度差（球员 − 参考，度），横轴是球员这次投篮的时间</div>
+            <TrendChart
+              xLabels={cmp.steps.map((st) => `${((player[st.i].ts - t0) / 1000).toFixed(1)}s`)}
+              series={JOINT_ANGLE_KEYS.map((k, idx) => ({
+                label: JOINT_ANGLE_LABELS[k],
+                color: JOINT_COLORS[idx],
+                values: cmp.steps.map((st) => st.diff[k] ?? null),
+              }))}
+              yMin={-60}
+              yMax={60}
+              dots={false}
+            />
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default ShotCompare;
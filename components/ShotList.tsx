@@ -0,0 +1,101 @@
+// components/ShotList.tsx
+'use client';
+
+import React from 'react';
+import type { CoachConfig } from '@/config/coach';
+import type { FeatureKey } from '@/lib/analyze/features';
+import type { MetricStat, ShotSession } from '@/lib/analyze/shots';
+import { OUTCOME_LABELS } from '@/lib/ball/rim';
+import { formatValue } from '@/lib/score/scorer';
+
+type Props = {
+  session: ShotSession;
+  selected: number;
+  onSelect: (index: number) => void;
+  coach: CoachConfig;
+};
+
+const sec = (ms: number, base: number) => `${((ms - base) / 1000).toFixed(1)}s`;
+
+// 一组练习里的每次投篮 + 整组统计；只有一次投篮时不显示
+const ShotList: React.FC<Props> = ({ session, selected, onSelect, coach }) => {
+  const { shots, aggregate } = session;
+  if (shots.length < 2 || !aggregate) return null;
+  const base = shots[0].startTs;
+
+  const scoreRow = (label: string, st: MetricStat, fmt: (v: number) => string) => (
+    <tr key={label} className="border-t border-slate-800">
+      <td className="py-1 pr-2 text-slate-300">{label}</td>
+      <td className="py-1 pr-2">{fmt(st.mean)}</td>
+      <td className="py-1 pr-2 text-emerald-300">
+        {fmt(st.best)} <span className="text-slate-500">#{st.bestShot + 1}</span>
+      </td>
+      <td className="py-1 text-rose-300">
+        {fmt(st.worst)} <span className="text-slate-500">#{st.worstShot + 1}</span>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-900/60 rounded-lg p-4">
+        <div className="text-slate-100 font-medium mb-2">
+          本段共识别出 {shots.length} 次投篮（点一次查看详细打分）
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {shots.map((s) => (
+            <button
+              key={s.index}
+              onClick={() => onSelect(s.index)}
+              className={`text-left rounded px-3 py-2 text-xs ${
+                s.index === selected
+                  ? 'bg-sky-700/70 ring-1 ring-sky-400'
+                  : 'bg-slate-800/60 hover:bg-slate-700/60'
+              }`}
+            >
+              <div className="flex justify-between text-slate-100">
+                <span>第 {s.index + 1} 次</span>
+                <span className="font-semibold">{s.result.total}</span>
+              </div>
+              <div className="text-slate-400">
+                {sec(s.startTs, base)} ~ {sec(s.endTs, base)}
+                {s.result.outcome ? ` · ${OUTCOME_LABELS[s.result.outcome]}` : ''}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-900/60 rounded-lg p-4">
+        <div className="text-slate-100 font-medium mb-2">整组统计</div>
+        <table className="w-full text-sm text-slate-200">
+          <thead className="text-slate-400 text-left text-xs">
+            <tr>
+              <th className="py-1 font-normal">指标</th>
+              <th className="py-1 font-normal">平均</th>
+              <th className="py-1 font-normal">最好</th>
+              <th className="py-1 font-normal">最差</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scoreRow('总分', aggregate.total, (v) => v.toFixed(0))}
+            {Object.entries(aggregate.buckets).map(([name, st]) =>
+              scoreRow(name, st, (v) => v.toFixed(0))
+            )}
+            {coach.weights.flatMap((b) =>
+              b.items.map((it) => {
+                const st = aggregate.features[it.key as FeatureKey];
+                return st ? scoreRow(it.label, st, (v) => formatValue(v, it.rule.unit)) : null;
+              })
+            )}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-500 mt-2">
+          单项的最好/最差按这一项的得分排，显示的是那一次的测量值；#N 表示第几次投篮。
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ShotList;
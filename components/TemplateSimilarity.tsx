@@ -0,0 +1,139 @@
+// components/TemplateSimilarity.tsx
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { PoseResult } from '@/lib/pose/poseEngine';
+import type { MotionTemplate } from '@/config/coach';
+import type { ShootingHand } from '@/lib/analyze/hand';
+import { PHASE_LABELS, type ShotPhase } from '@/lib/analyze/phases';
+import { recordTemplate, SEGMENT_LABELS, templateSimilarity, type Deviation } from '@/lib/compare/similarity';
+
+type Props = {
+  // 当前选中这一次投篮的时序和阶段（下标相对 seq）
+  seq: PoseResult[];
+  phases: ShotPhase[];
+  hand: ShootingHand | null;
+  templates: MotionTemplate[];
+  // 存模板：同名的会被覆盖
+  onSaveTemplate: (tpl: MotionTemplate) => void;
+  disabled?: boolean;
+};
+
+const scoreColor = (s: number) => (s >= 80 ? 'text-emerald-300' : s >= 60 ? 'text-amber-300' : 'text-rose-300');
+
+function DeviationList<K extends string>({
+  title,
+  items,
+  labels,
+}: {
+  title: string;
+  items: Deviation<K>[];
+  labels: Record<K, string>;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-slate-400">{title}</div>
+      {items.map((d) => (
+        <div key={d.key} className="flex items-center gap-2 text-xs text-slate-300">
+          <span className="w-12">{labels[d.key]}</span>
+          <div className="flex-1 h-2 bg-slate-800 rounded">
+            <div
+              className={`h-2 rounded ${d.score >= 80 ? 'bg-emerald-500' : d.score >= 60 ? 'bg-amber-500' : 'bg-rose-500'}`}
+              style={{ width: `${d.score}%` }}
+            />
+          </div>
+          <span className={`w-8 text-right ${scoreColor(d.score)}`}>{d.score}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const TemplateSimilarity: React.FC<Props> = ({ seq, phases, hand, templates, onSaveTemplate, disabled }) => {
+  const [selected, setSelected] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // 模板被删了或者第一次有模板，自动换到第一个
+  useEffect(() => {
+    if (!templates.some((t) => t.name === selected)) setSelected(templates[0]?.name ?? '');
+  }, [templates, selected]);
+
+  const template = templates.find((t) => t.name === selected) ?? null;
+  const sim = useMemo(
+    () => (template && hand ? templateSimilarity(seq, phases, hand, template) : null),
+    [seq, phases, hand, template]
+  );
+
+  const handleSave = () => {
+    if (!hand) return;
+    const name = window.prompt('模板名字（同名会覆盖）', template?.name ?? '')?.trim();
+    if (!name) return;
+    const tpl = recordTemplate(name, seq, phases, hand);
+    if (!tpl) {
+      setNotice('这一次没找到出手帧，存不了模板');
+      return;
+    }
+    onSaveTemplate(tpl);
+    setSelected(name);
+    setNotice(`已存为模板“${name}”`);
+  };
+
+  return (
+    <div className="bg-slate-900/60 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="text-slate-100 font-medium">模板相似度</div>
+        <div className="flex items-center gap-2 text-sm">
+          {templates.length ? (
+            <select
+              value={selected}
+              onChange={(e) => setSelected(e.target.value)}
+              className="bg-slate-800 text-slate-100 rounded px-2 py-1"
+            >
+              {templates.map((t) => (
+                <option key={t.name} value={t.name}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <button
+            onClick={handleSave}
+            disabled={disabled || !hand || !phases.length}
+            className="px-3 py-1 rounded bg-slate-700 text-slate-100 disabled:bg-slate-800 disabled:text-slate-500"
+          >
+            把这一次存为模板
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400">
+        把球员投得最好的一次存成模板，之后每一次都和它比整体姿势有多像（消掉了站位、远近和镜头角度）。
+        模板跟着当前配置保存，可以在配置的导出 / 导入里带走。
+      </p>
+      {notice ? <p className="text-xs text-slate-300">{notice}</p> : null}
+
+      {!templates.length ? (
+        <p className="text-xs text-slate-400">还没有模板。</p>
+      ) : !sim ? (
+        <p className="text-xs text-slate-400">这一次的有效帧太少，或者没判断出投篮手，没法比。</p>
+      ) : (
+        <div className="flex gap-6 flex-wrap">
+          <div>
+            <div className={`text-4xl font-semibold ${scoreColor(sim.score)}`}>{sim.score}</div>
+            <div className="text-xs text-slate-400 mt-1">
+              和“{sim.template}”的相似度
+              {sim.mirrored ? '（投篮手不同，已镜像）' : ''}
+            </div>
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <DeviationList title="各部位（从差到好）" items={sim.segments} labels={SEGMENT_LABELS} />
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <DeviationList title="各阶段（从差到好）" items={sim.phases} labels={PHASE_LABELS} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateSimilarity;
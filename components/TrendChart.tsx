@@ -0,0 +1,104 @@
+// components/TrendChart.tsx
+'use client';
+
+import React from 'react';
+
+export type TrendSeries = {
+  label: string;
+  color: string;
+  // 和 xLabels 一一对应，没有数据的位置放 null
+  values: (number | null)[];
+};
+
+type Props = {
+  xLabels: string[];
+  series: TrendSeries[];
+  height?: number;
+  // 纵轴范围，默认 0~100 分；超出范围的点贴边画
+  yMin?: number;
+  yMax?: number;
+  // 点很多时（比如逐帧曲线）不画圆点
+  dots?: boolean;
+};
+
+// 折线图：默认是 0~100 分、一周一个点的进步趋势
+const TrendChart: React.FC<Props> = ({ xLabels, series, height = 220, yMin = 0, yMax = 100, dots = true }) => {
+  const width = 640;
+  const pad = { l: 32, r: 12, t: 12, b: 28 };
+  const plotW = width - pad.l - pad.r;
+  const plotH = height - pad.t - pad.b;
+  const n = xLabels.length;
+
+  const xOf = (i: number) => pad.l + (n <= 1 ? plotW / 2 : (i * plotW) / (n - 1));
+  const span = yMax - yMin || 1;
+  const yOf = (v: number) => pad.t + plotH * (1 - (Math.max(yMin, Math.min(yMax, v)) - yMin) / span);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((r) => Math.round(yMin + span * r));
+
+  // 横轴标签太密就隔几个画一个
+  const labelStep = Math.max(1, Math.ceil(n / 8));
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full text-slate-200">
+        {ticks.map((v) => (
+          <g key={v}>
+            <line
+              x1={pad.l}
+              x2={width - pad.r}
+              y1={yOf(v)}
+              y2={yOf(v)}
+              stroke="rgba(148, 163, 184, 0.2)"
+            />
+            <text x={pad.l - 6} y={yOf(v) + 3} fontSize={10} textAnchor="end" fill="currentColor">
+              {v}
+            </text>
+          </g>
+        ))}
+        {xLabels.map((lb, i) =>
+          i % labelStep === 0 ? (
+            <text
+              key={i}
+              x={xOf(i)}
+              y={height - 8}
+              fontSize={10}
+              textAnchor="middle"
+              fill="currentColor"
+            >
+              {lb}
+            </text>
+          ) : null
+        )}
+        {series.map((s) => {
+          const pts = s.values
+            .map((v, i) => (v == null ? null : { x: xOf(i), y: yOf(v) }))
+            .filter((p): p is { x: number; y: number } => !!p);
+          return (
+            <g key={s.label}>
+              {pts.length >= 2 ? (
+                <polyline
+                  points={pts.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={2}
+                />
+              ) : null}
+              {dots
+                ? pts.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={3} fill={s.color} />)
+                : null}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-xs text-slate-300">
+        {series.map((s) => (
+          <span key={s.label} className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ background: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -4,152 +4,161 @@
 import React, {
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from 'react';
-import { PoseEngine, type PoseResult } from '@/lib/pose/poseEngine';
+import Link from 'next/link';
+import { PoseEngine, type PoseFrame, type PoseResult } from '@/lib/pose/poseEngine';
+import { drawBall, drawOtherPerson, drawRim, drawSkeleton } from '@/lib/video/overlay';
+import { personAt } from '@/lib/pose/tracker';
+import { resmooth, smoothOffline } from '@/lib/filters/smoothing';
+import { jointLabel } from '@/lib/pose/landmarks';
 import {
-  ALL_CONNECTIONS,
-  UPPER_COLOR,
-  TORSO_COLOR,
-  LOWER_COLOR,
-} from '@/lib/pose/skeleton';
+  BACKEND_LABELS,
+  MODEL_PREF_LABELS,
+  loadPoseBackend,
+  type BackendLoadResult,
+  type PoseBackend,
+  type PoseBackendId,
+} from '@/lib/pose/backend';
 import {
   DEFAULT_ANALYZE_CONFIG,
   type AnalyzeConfig,
 } from '@/lib/analyze/config';
-import {
-  scoreFromPose,
-  EMPTY_SCORE,
-  type AnalyzeScore,
-} from '@/lib/analyze/scoring';
+import { EMPTY_RESULT, type AnalysisResult } from '@/lib/analyze/scoring';
+import { analyzeShots, type ShotSession } from '@/lib/analyze/shots';
+import type { FeatureKey } from '@/lib/analyze/features';
+import { HAND_LABELS, type ShootingHand } from '@/lib/analyze/hand';
+import { bestViewFor, VIEW_LABELS, type CameraView } from '@/lib/analyze/viewpoint';
+import { toCentimetres, type CalibrationMode } from '@/lib/analyze/units';
+import type { KeypointGap } from '@/lib/pose/gapFill';
+import { formatValue } from '@/lib/score/scorer';
+import { PHASE_LABELS } from '@/lib/analyze/phases';
+import { sampleFrames, type SampleProgress } from '@/lib/video/frameSampler';
+import { BallTracker, detectBall, type BallFrame } from '@/lib/ball/ballTracker';
+import { detectRim, rimFromClick, OUTCOME_LABELS, type Rim } from '@/lib/ball/rim';
+import { DEFAULT_CONFIG, type CoachConfig, type ScoreUnit } from '@/config/coach';
+import { loadActiveConfig, saveActiveConfig } from '@/lib/config/profiles';
+import { saveSession } from '@/lib/history/sessionStore';
+import ConfigPanel from '@/components/ConfigPanel';
 import RadarChart from '@/components/RadarChart';
+import ShotList from '@/components/ShotList';
+import ShotCompare from '@/components/ShotCompare';
+import TemplateSimilarity from '@/components/TemplateSimilarity';
+import FilterDebug from '@/components/FilterDebug';
+import { extractVideoPoses } from '@/lib/pose/videoPoses';
+import { downloadBlob, exportCSV, exportJSON } from '@/lib/export/exporters';
+import { pickRecorderMime, renderAnnotatedVideo } from '@/lib/video/annotatedVideo';
+import { buildReport, saveReport } from '@/lib/report/report';
+import { captureKeyFrames } from '@/lib/report/keyFrames';
+import { buildAnalysisExport, framesTable, shotsTable } from '@/lib/export/analysisExport';
 
-declare global {
-  interface Window {
-    Pose?: any;
-    pose?: any;
-    __mpPosePromise?: Promise<any>;
-  }
-}
-
-const MP_LOCAL_BASES = ['/mp/pose', '/mediapipe/pose', '/vendor/mediapipe/pose'];
-const MP_CDN_BASES = [
-  'https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.5.1675469404',
-  'https://unpkg.com/@mediapipe/pose@0.5.1675469404',
-];
-
-async function loadScriptOnce(src: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const existed = document.querySelector(`script[data-mp="${src}"]`);
-    if (existed) {
-      existed.addEventListener('load', () => resolve());
-      existed.addEventListener('error', () => reject(new Error('fail')));
-      return;
-    }
-    const s = document.createElement('script');
-    s.src = src;
-    s.async = true;
-    s.dataset.mp = src;
-    s.onload = () => resolve();
-    s.onerror = () => reject(new Error('fail'));
-    document.head.appendChild(s);
-  });
-}
-
-// 找到能用的 mediapipe Pose 构造函数
-async function ensureMediapipePose(): Promise<any | null> {
-  if (typeof window === 'undefined') return null;
-  if (window.Pose || window.pose) {
-    return window.Pose || window.pose;
-  }
-  if (window.__mpPosePromise) {
-    return window.__mpPosePromise;
-  }
-
-  window.__mpPosePromise = (async () => {
-    const tryBases = [...MP_LOCAL_BASES, ...MP_CDN_BASES];
-    for (const base of tryBases) {
-      try {
-        await loadScriptOnce(`${base}/pose.js`);
-        const Ctor = (window as any).Pose || (window as any).pose;
-        if (Ctor) {
-          return (file: string) => `${base}/${file}`;
-        }
-      } catch {
-        // 下一个
-      }
-    }
-    return null;
-  })();
-
-  const locateFile = await window.__mpPosePromise;
-  if (!locateFile) return null;
-
-  // 这里再返回真正的 Pose 类
-  const Ctor = (window as any).Pose || (window as any).pose;
-  if (!Ctor) return null;
-  // 我们需要把 locateFile 固定进去
-  return class WrappedPose extends Ctor {
-    constructor(opts: any = {}) {
-      super({
-        ...opts,
-        locateFile,
-      });
-    }
-  };
-}
+// 实时模式边播边打分的最小间隔（毫秒）
+const LIVE_RESCORE_MS = 500;
 
 export default function VideoAnalyzer() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const offscreenRef = useRef<HTMLCanvasElement | null>(null);
+  // 找球用的小画布，和上一帧像素（做帧差）
+  const ballCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const prevBallImgRef = useRef<ImageData | null>(null);
+  const ballTrackerRef = useRef(new BallTracker());
+  const ballTrackRef = useRef<BallFrame[]>([]);
+  const lastBallRef = useRef<BallFrame | null>(null);
+  // 篮筐：自动找到的 + 用户点击确认的，点击的优先
+  const autoRimRef = useRef<Rim | null>(null);
+  const rimRef = useRef<Rim | null>(null);
 
   const engineRef = useRef<PoseEngine | null>(null);
-  const mpPoseRef = useRef<any | null>(null);
+  const backendRef = useRef<PoseBackend | null>(null);
   const loopRef = useRef<number | null>(null);
   const lastPoseRef = useRef<PoseResult | null>(null);
+  // 整段姿态时序，打分按阶段取帧
+  const seqRef = useRef<PoseResult[]>([]);
+  // 画面里每个被跟踪到的人各自的时序，点选锁定某人时换成这个人的
+  const tracksRef = useRef(new Map<string, PoseResult[]>());
+  // 自动挑中的那个人的时序，解除锁定时换回来
+  const autoSeqRef = useRef<PoseResult[]>([]);
+  const lockedIdRef = useRef<string | null>(null);
+  // 打分用的教练配置，回调里读 ref 拿最新值
+  const coachRef = useRef<CoachConfig>(DEFAULT_CONFIG);
+  // 当前认定的投篮手，画骨架时高亮
+  const handRef = useRef<ShootingHand | null>(null);
+  const stopRef = useRef(false);
+  // 长视频里当前查看的是第几次投篮
+  const shotIdxRef = useRef(0);
 
   const [file, setFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [scores, setScores] = useState<AnalyzeScore>(EMPTY_SCORE);
-  const [analyzeConfig] = useState<AnalyzeConfig>(DEFAULT_ANALYZE_CONFIG);
-  const [mpReady, setMpReady] = useState(false);
-  const [mpTried, setMpTried] = useState(false);
+  const [scores, setScores] = useState<AnalysisResult>(EMPTY_RESULT);
+  const [session, setSession] = useState<ShotSession | null>(null);
+  const [shotIdx, setShotIdx] = useState(0);
+  const [analyzeConfig, setAnalyzeConfig] = useState<AnalyzeConfig>(DEFAULT_ANALYZE_CONFIG);
+  const [coach, setCoach] = useState<CoachConfig>(DEFAULT_CONFIG);
+  const [poseReady, setPoseReady] = useState(false);
+  // 最近一次加载姿态后端的结果，失败回退时给提示
+  const [backendLoad, setBackendLoad] = useState<BackendLoadResult | null>(null);
   const [showConfig, setShowConfig] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // 生成带标注视频的进度 0~1，没在生成时为 null
+  const [videoExport, setVideoExport] = useState<number | null>(null);
+  const videoExportStopRef = useRef(false);
+  const [makingReport, setMakingReport] = useState(false);
+  const [progress, setProgress] = useState<SampleProgress | null>(null);
   const [videoSize, setVideoSize] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
+  const [rim, setRim] = useState<Rim | null>(null);
+  const [pickingRim, setPickingRim] = useState(false);
+  const [pickingPerson, setPickingPerson] = useState(false);
+  const [lockedId, setLockedId] = useState<string | null>(null);
+  // 本地存的教练配置读不出来、用了默认配置时的原因
+  const [configDropped, setConfigDropped] = useState<string[] | null>(null);
+  // 这次结果没存进历史记录的原因
+  const [historyError, setHistoryError] = useState('');
 
   // 1) init pose engine
   useEffect(() => {
-    engineRef.current = new PoseEngine({
-      smooth: {
-        minCutoff: analyzeConfig.poseSmoothing.minCutoff,
-        beta: analyzeConfig.poseSmoothing.beta,
-        dCutoff: analyzeConfig.poseSmoothing.dCutoff,
-      },
-    } as any);
-  }, [analyzeConfig.poseSmoothing]);
+    engineRef.current = new PoseEngine({ smooth: coach.smooth, pointThreshold: analyzeConfig.poseThreshold });
+    engineRef.current.lock(lockedIdRef.current);
+  }, [coach.smooth, analyzeConfig.poseThreshold]);
 
-  // 2) 预加载 mediapipe
+  // 1.1) 教练配置：启动时读本地保存的，改了就存
+  useEffect(() => {
+    const { config: saved, dropped } = loadActiveConfig();
+    coachRef.current = saved;
+    setCoach(saved);
+    setConfigDropped(dropped);
+  }, []);
+  const handleCoachChange = (next: CoachConfig) => {
+    coachRef.current = next;
+    setCoach(next);
+    saveActiveConfig(next);
+  };
+
+  // 2) 预加载姿态后端：按设置或模型偏好挑，加载不了自动换下一个
   useEffect(() => {
     if (typeof window === 'undefined') return;
+    let cancelled = false;
+    setPoseReady(false);
+    setBackendLoad(null);
     (async () => {
-      const PoseCtorOrNull = await ensureMediapipePose();
-      setMpTried(true);
-      if (!PoseCtorOrNull) {
-        setMpReady(false);
+      const res = await loadPoseBackend(analyzeConfig.backend, coach.modelPreference);
+      if (cancelled) {
+        res.backend?.dispose();
         return;
       }
-      const pose = new PoseCtorOrNull({
-        modelComplexity: analyzeConfig.model === 'mediapipe-full' ? 2 : 1,
-        enableSegmentation: false,
-        smoothLandmarks: false,
-      });
-      mpPoseRef.current = pose;
-      setMpReady(true);
+      backendRef.current = res.backend;
+      setBackendLoad(res);
+      setPoseReady(!!res.backend);
     })();
-  }, [analyzeConfig.model]);
+    return () => {
+      cancelled = true;
+      backendRef.current?.dispose();
+      backendRef.current = null;
+    };
+  }, [analyzeConfig.backend, coach.modelPreference]);
 
   // 3) 选文件
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -158,8 +167,18 @@ export default function VideoAnalyzer() {
     const url = URL.createObjectURL(f);
     setFile(f);
     setVideoUrl(url);
-    setScores(EMPTY_SCORE);
+    // 换了视频，之前锁定的 ID 没意义了
+    lockedIdRef.current = null;
+    setLockedId(null);
+    engineRef.current?.lock(null);
+    tracksRef.current = new Map();
+    setScores(EMPTY_RESULT);
+    setSession(null);
+    shotIdxRef.current = 0;
+    setProgress(null);
     setIsAnalyzing(false);
+    autoRimRef.current = null;
+    updateRim(null);
   };
 
   // 4) 视频真正知道尺寸了，把 canvas 同步一下
@@ -171,160 +190,444 @@ export default function VideoAnalyzer() {
     cvs.height = vid.videoHeight;
     setVideoSize({ w: vid.videoWidth, h: vid.videoHeight });
 
-    // 准备一个离屏 canvas 给 mediapipe
+    // 准备一个离屏 canvas 给姿态后端
     const off = document.createElement('canvas');
     off.width = vid.videoWidth;
     off.height = vid.videoHeight;
     offscreenRef.current = off;
+
+    const ballCvs = document.createElement('canvas');
+    const scale = Math.min(1, analyzeConfig.ball.analysisWidth / (vid.videoWidth || 1));
+    ballCvs.width = Math.round(vid.videoWidth * scale);
+    ballCvs.height = Math.round(vid.videoHeight * scale);
+    ballCanvasRef.current = ballCvs;
   };
 
-  // 5) 画骨架
-  const drawPoseOnCanvas = useCallback((person: PoseResult) => {
+  // 5) 画骨架：分析的那个人正常画，画面里其他人画淡一点；others 默认是引擎最近一帧跟踪到的人
+  const drawPoseOnCanvas = useCallback((person: PoseResult | null, others?: PoseResult[]) => {
     const cvs = canvasRef.current;
     if (!cvs) return;
     const ctx = cvs.getContext('2d');
     if (!ctx) return;
-
     ctx.clearRect(0, 0, cvs.width, cvs.height);
+    for (const p of others ?? engineRef.current?.tracked ?? []) {
+      if (p.id !== person?.id) drawOtherPerson(ctx, p.keypoints, p.id);
+    }
+    if (person) drawSkeleton(ctx, person.keypoints, handRef.current);
+  }, []);
 
-    const minScore = 0.28;
-    const radius = 3;
-
-    // 点
-    for (const kp of person.keypoints) {
-      if (!kp) continue;
-      if ((kp.score ?? 0) < minScore) continue;
-
-      let color = LOWER_COLOR;
-      if (
-        kp.name === 'left_shoulder' ||
-        kp.name === 'right_shoulder' ||
-        kp.name === 'left_hip' ||
-        kp.name === 'right_hip'
-      ) {
-        color = TORSO_COLOR;
-      } else if (
-        kp.name?.startsWith('left_knee') ||
-        kp.name?.startsWith('right_knee') ||
-        kp.name?.startsWith('left_ankle') ||
-        kp.name?.startsWith('right_ankle') ||
-        kp.name?.startsWith('left_foot') ||
-        kp.name?.startsWith('right_foot') ||
-        kp.name?.startsWith('left_heel') ||
-        kp.name?.startsWith('right_heel')
-      ) {
-        color = LOWER_COLOR;
-      } else {
-        color = UPPER_COLOR;
-      }
+  // 5.1) 画球
+  const drawBallOnCanvas = useCallback((ball: BallFrame) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawBall(ctx, ball);
+  }, []);
 
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.arc(kp.x, kp.y, radius, 0, Math.PI * 2);
-      ctx.fill();
-    }
+  // 5.1.1) 画篮筐
+  const drawRimOnCanvas = useCallback((r: Rim) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawRim(ctx, r);
+  }, []);
+
+  const updateRim = useCallback((r: Rim | null) => {
+    rimRef.current = r;
+    setRim(r);
+  }, []);
 
-    // 线
-    for (const { pair, color } of ALL_CONNECTIONS) {
-      const [aName, bName] = pair;
-      const a = person.keypoints.find((k) => k.name === aName);
-      const b = person.keypoints.find((k) => k.name === bName);
-      if (!a || !b) continue;
-      if ((a.score ?? 0) < minScore || (b.score ?? 0) < minScore) continue;
-      const dist = Math.hypot(a.x - b.x, a.y - b.y);
-      const maxLen = Math.min(cvs.width, cvs.height) * 0.6;
-      if (dist > maxLen) continue;
-
-      ctx.strokeStyle = color;
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(a.x, a.y);
-      ctx.lineTo(b.x, b.y);
-      ctx.stroke();
+  // 5.2) 在小画布上找球，坐标换回原视频像素
+  const trackBall = useCallback((vid: HTMLVideoElement, mediaTsMs: number) => {
+    const cvs = ballCanvasRef.current;
+    const bctx = cvs?.getContext('2d', { willReadFrequently: true });
+    if (!cvs || !bctx || !cvs.width) return null;
+    bctx.drawImage(vid, 0, 0, cvs.width, cvs.height);
+    const img = bctx.getImageData(0, 0, cvs.width, cvs.height);
+    const det = detectBall(img, prevBallImgRef.current);
+    prevBallImgRef.current = img;
+    const k = vid.videoWidth / cvs.width;
+    // 还没有篮筐就顺手自动找一下
+    if (!rimRef.current) {
+      const r = detectRim(img);
+      if (r) {
+        autoRimRef.current = { ...r, x: r.x * k, y: r.y * k, halfWidth: r.halfWidth * k };
+        updateRim(autoRimRef.current);
+      }
     }
+    const scaled = det ? { ...det, x: det.x * k, y: det.y * k, r: det.r * k } : null;
+    const ball = ballTrackerRef.current.update(scaled, mediaTsMs);
+    if (ball) ballTrackRef.current.push(ball);
+    return ball;
+  }, [updateRim]);
+
+  // 显示第几次投篮的打分
+  const showShot = useCallback((ss: ShotSession, idx: number) => {
+    const shot = ss.shots[Math.min(idx, ss.shots.length - 1)];
+    const res = shot?.result ?? EMPTY_RESULT;
+    shotIdxRef.current = shot?.index ?? 0;
+    setShotIdx(shotIdxRef.current);
+    handRef.current = res.hand ?? null;
+    setScores(res);
   }, []);
 
+  // 用当前时序、球轨迹、篮筐重新打分；长视频先切成一次一次再分别打分
+  const rescore = useCallback(() => {
+    const ss = analyzeShots(seqRef.current, coachRef.current, {
+      ball: ballTrackRef.current,
+      rim: rimRef.current,
+      hand: analyzeConfig.shootingHand,
+      view: analyzeConfig.cameraView,
+      calibration: analyzeConfig.calibration,
+      poseThreshold: analyzeConfig.poseThreshold,
+      maxGapMs: analyzeConfig.maxGapMs,
+    });
+    setSession(ss);
+    showShot(ss, shotIdxRef.current);
+    return ss;
+  }, [
+    analyzeConfig.shootingHand,
+    analyzeConfig.cameraView,
+    analyzeConfig.calibration,
+    analyzeConfig.poseThreshold,
+    analyzeConfig.maxGapMs,
+    showShot,
+  ]);
+
+  const handleSelectShot = (idx: number) => {
+    if (!session) return;
+    showShot(session, idx);
+    const shot = session.shots[idx];
+    if (videoRef.current && shot) videoRef.current.currentTime = shot.startTs / 1000;
+  };
+
+  // 一次分析跑完，结果记进历史；没识别到人、或者一项都没测出来就不记，免得 0 分把趋势图拉下去
+  // 一段里有多次投篮时记整组平均
+  const recordSession = useCallback(
+    (ss: ShotSession) => {
+      if (!seqRef.current.length || !ss.shots.length) return;
+      if (!ss.shots.some((s) => s.result.buckets.some((b) => b.measured))) return;
+      const first = ss.shots[0].result;
+      const agg = ss.aggregate;
+      const features: AnalysisResult['features'] = {};
+      if (agg) {
+        for (const k of Object.keys(agg.features) as FeatureKey[]) {
+          const st = agg.features[k];
+          if (st) features[k] = st.mean;
+        }
+      }
+      saveSession({
+        clipName: file?.name ?? '未命名视频',
+        total: agg ? Math.round(agg.total.mean) : first.total,
+        buckets: agg
+          ? Object.entries(agg.buckets).map(([name, st]) => ({ name, score: Math.round(st.mean) }))
+          : first.buckets.filter((b) => b.measured).map((b) => ({ name: b.name, score: b.score })),
+        features: agg ? features : first.features,
+        configVersion: coachRef.current.version,
+        outcome: agg ? undefined : first.outcome,
+        hand: first.hand,
+        shotCount: ss.shots.length,
+      })
+        .then(() => setHistoryError(''))
+        .catch((err) => {
+          // 存不进去不影响本次结果展示，提示一下就行
+          setHistoryError(err?.message ?? String(err));
+        });
+    },
+    [file]
+  );
+
+  // 改了平滑参数，已有的时序从原始点重新平滑，下面的 effect 接着重新打分；识别中途改的只影响之后的帧
+  useEffect(() => {
+    if (isAnalyzing || !seqRef.current.length) return;
+    const cfg = coach.smooth;
+    const th = analyzeConfig.poseThreshold;
+    seqRef.current = resmooth(seqRef.current, cfg, th);
+    autoSeqRef.current = resmooth(autoSeqRef.current, cfg, th);
+    tracksRef.current = new Map(
+      Array.from(tracksRef.current.entries()).map(([id, seq]) => [id, resmooth(seq, cfg, th)])
+    );
+    const last = seqRef.current[seqRef.current.length - 1];
+    if (last) lastPoseRef.current = last;
+  }, [coach.smooth]);
+
+  // 改了打分规则，已有的时序直接重新打分，不用重跑识别
+  useEffect(() => {
+    coachRef.current = coach;
+    if (seqRef.current.length) rescore();
+  }, [coach, rescore]);
+
+  // 零相位平滑要用到后面的帧，整段识别完再把每个人的时序从原始点重新平滑一遍
+  const smoothWholeClip = useCallback(() => {
+    const cfg = coachRef.current.smooth;
+    const th = analyzeConfig.poseThreshold;
+    seqRef.current = smoothOffline(seqRef.current, cfg, th);
+    autoSeqRef.current = smoothOffline(autoSeqRef.current, cfg, th);
+    tracksRef.current = new Map(
+      Array.from(tracksRef.current.entries()).map(([id, seq]) => [id, smoothOffline(seq, cfg, th)])
+    );
+    const last = seqRef.current[seqRef.current.length - 1];
+    if (last) lastPoseRef.current = last;
+  }, [analyzeConfig.poseThreshold]);
+
   // 6) 点击开始分析
   const handleStart = useCallback(async () => {
     const vid = videoRef.current;
     if (!vid) return;
-    if (!mpReady) {
-      alert('Mediapipe Pose 还没加载好，再点一次即可');
-      // 再主动拉一次
-      ensureMediapipePose().then(() => {
-        // nothing
-      });
+    if (!poseReady) {
+      alert('姿态模型还没加载好，稍等一下再点');
       return;
     }
-    // 播放视频
-    vid.currentTime = 0;
-    await vid.play();
-    setIsAnalyzing(true);
 
-    const pose = mpPoseRef.current;
+    const backend = backendRef.current;
     const engine = engineRef.current;
     const off = offscreenRef.current;
 
-    if (!pose || !engine || !off) return;
+    if (!backend || !engine || !off) return;
 
     const ctx = off.getContext('2d');
     if (!ctx) return;
 
+    seqRef.current = [];
+    tracksRef.current = new Map();
+    autoSeqRef.current = [];
+    engine.reset();
+    backend.reset();
+    ballTrackRef.current = [];
+    ballTrackerRef.current.reset();
+    prevBallImgRef.current = null;
+    setScores(EMPTY_RESULT);
+    setSession(null);
+    shotIdxRef.current = 0;
+    setProgress(null);
+    stopRef.current = false;
+    const offline = analyzeConfig.mode === 'offline';
+    let lastLiveScoreAt = -Infinity;
+
+    // 后端识别完的一帧：跟踪、平滑、记时序、画骨架
+    const handlePoseFrame = (frame: PoseFrame) => {
+      const person = engine.process(frame);
+      for (const p of engine.tracked) {
+        if (!tracksRef.current.has(p.id)) tracksRef.current.set(p.id, []);
+        tracksRef.current.get(p.id)!.push(p);
+        if (p.id === engine.autoPersonId) autoSeqRef.current.push(p);
+      }
+      // 没识别到人，或者锁定的人这一帧不在画面里：只画其他人
+      if (!person) {
+        drawPoseOnCanvas(null);
+        return;
+      }
+
+      lastPoseRef.current = person;
+      seqRef.current.push(person);
+      drawPoseOnCanvas(person);
+      if (lastBallRef.current) drawBallOnCanvas(lastBallRef.current);
+      if (rimRef.current) drawRimOnCanvas(rimRef.current);
+      // 离线模式等整段跑完再打分；实时模式每次都要把整段重切一遍，限一下频率，结束时再完整打一次
+      if (!offline && performance.now() - lastLiveScoreAt >= LIVE_RESCORE_MS) {
+        lastLiveScoreAt = performance.now();
+        rescore();
+      }
+    };
+
+    // 把当前帧画到离屏 canvas 再给姿态后端
+    // 时间戳用媒体时间，不用 performance.now()，两次跑同一段视频时间轴一致
+    const sendFrame = async (mediaTsMs: number) => {
+      if (!videoRef.current) return;
+      ctx.drawImage(videoRef.current, 0, 0, off.width, off.height);
+      lastBallRef.current = analyzeConfig.ball.enabled
+        ? trackBall(videoRef.current, mediaTsMs)
+        : null;
+      handlePoseFrame(await backend.estimate(off, mediaTsMs));
+    };
+
+    setIsAnalyzing(true);
+
+    if (offline) {
+      await sampleFrames(vid, sendFrame, {
+        fps: analyzeConfig.offlineFps,
+        onProgress: setProgress,
+        shouldStop: () => stopRef.current,
+      });
+      smoothWholeClip();
+      recordSession(rescore());
+      setIsAnalyzing(false);
+      return;
+    }
+
+    // 实时模式：边播边识别
+    vid.currentTime = 0;
+    await vid.play();
+
     const loop = async () => {
       if (!videoRef.current) return;
       if (videoRef.current.paused || videoRef.current.ended) {
+        smoothWholeClip();
+        recordSession(rescore());
         setIsAnalyzing(false);
         return;
       }
-      // 把当前帧画到离屏 canvas 再给 mediapipe
-      ctx.drawImage(videoRef.current, 0, 0, off.width, off.height);
-      // mediapipe 的 send 是异步的
-      await pose.send({ image: off });
+      await sendFrame(videoRef.current.currentTime * 1000);
 
-      // 我们在 onResults 里会更新 lastPoseRef，这里只要继续 loop 就行
+      // sendFrame 里已经更新了 lastPoseRef，这里只要继续 loop 就行
       loopRef.current = requestAnimationFrame(loop);
     };
 
-    // 挂上结果回调（要先挂，不然第一帧回调不到）
-    pose.onResults((res: any) => {
-      // res.poseLandmarks 是 33 个关键点
-      if (!res || !res.poseLandmarks) {
+    // 进循环
+    loop();
+  }, [
+    analyzeConfig,
+    drawBallOnCanvas,
+    drawPoseOnCanvas,
+    drawRimOnCanvas,
+    poseReady,
+    recordSession,
+    rescore,
+    smoothWholeClip,
+    trackBall,
+  ]);
+
+  // 6.2) 导出：完整 JSON、逐帧 CSV、逐次投篮 CSV
+  const handleExport = async (kind: 'json' | 'frames' | 'shots' | 'video') => {
+    setShowExport(false);
+    if (!session || !seqRef.current.length) return;
+    const base = (file?.name ?? 'analysis').replace(/\.[^.]+$/, '');
+    const doc = buildAnalysisExport({
+      clip: {
+        name: file?.name ?? '',
+        durationSec: videoRef.current?.duration ?? 0,
+        width: videoSize.w,
+        height: videoSize.h,
+      },
+      seq: seqRef.current,
+      session,
+      coach: coachRef.current,
+      analyze: analyzeConfig,
+      rim: rimRef.current,
+    });
+    if (kind === 'video') {
+      const vid = videoRef.current;
+      if (!vid) return;
+      videoExportStopRef.current = false;
+      setVideoExport(0);
+      try {
+        const blob = await renderAnnotatedVideo(vid, doc, {
+          ball: ballTrackRef.current,
+          onProgress: setVideoExport,
+          shouldStop: () => videoExportStopRef.current,
+        });
+        if (!videoExportStopRef.current) downloadBlob(blob, `${base}.annotated.webm`);
+      } catch (err: any) {
+        alert(`生成视频失败：${err?.message ?? err}`);
+      } finally {
+        setVideoExport(null);
+        // 录制时画布上的骨架没动，回到最后一帧的画面
+        if (lastPoseRef.current) drawPoseOnCanvas(lastPoseRef.current);
+      }
+    } else if (kind === 'json') {
+      exportJSON(doc, `${base}.analysis.json`);
+    } else {
+      const t = kind === 'frames' ? framesTable(doc) : shotsTable(doc);
+      exportCSV(t.header, t.rows, `${base}.${kind}.csv`);
+    }
+  };
+
+  // 6.3) 生成打印版报告：截当前这次投篮的关键帧，存好后在新标签页打开
+  const handleReport = async () => {
+    const vid = videoRef.current;
+    const shot = session?.shots[shotIdx];
+    if (!vid || !session || !shot) return;
+    setMakingReport(true);
+    try {
+      const seq = seqRef.current.slice(shot.startIdx, shot.endIdx + 1);
+      const keyFrames = await captureKeyFrames(vid, seq, shot.result.phases ?? [], shot.result.hand ?? null);
+      const report = buildReport(shot.result, coachRef.current, {
+        clipName: file?.name ?? '未命名视频',
+        shotLabel:
+          session.shots.length > 1 ? `第 ${shot.index + 1} 次 / 共 ${session.shots.length} 次` : undefined,
+        keyFrames,
+      });
+      if (!saveReport(report)) {
+        alert('报告太大存不下，试试缩短视频或清理浏览器存储');
         return;
       }
-      const kps = res.poseLandmarks.map((lm: any, idx: number) => ({
-        name: res.poseLandmarks[idx]?.name || res.poseLandmarks[idx]?.visibility
-          ? `kp_${idx}`
-          : `kp_${idx}`,
-        // mediapipe 是 0~1，要转成像素
-        x: lm.x * off.width,
-        y: lm.y * off.height,
-        z: lm.z,
-        score: lm.visibility ?? 1,
-      }));
-
-      // 填成我们的结构，注意 id 用字符串
-      const frame = {
-        persons: [
-          {
-            id: '0',
-            keypoints: kps,
-          },
-        ],
-        ts: performance.now(),
-      };
+      // 截图是异步的，弹窗可能被拦，被拦就在当前页打开
+      if (!window.open('/report', '_blank')) window.location.href = '/report';
+    } finally {
+      setMakingReport(false);
+      if (lastPoseRef.current) drawPoseOnCanvas(lastPoseRef.current);
+    }
+  };
 
-      const person = engine.process(frame);
-      if (!person) return;
+  // 6.4) 参考动作是视频时，用同一个姿态后端、同样的采样率和平滑参数识别
+  const loadReferenceVideo = useCallback(
+    async (f: File, onProgress: (p: SampleProgress) => void) => {
+      const backend = backendRef.current;
+      if (!backend) throw new Error('姿态模型还没加载好');
+      return extractVideoPoses(f, backend, {
+        fps: analyzeConfig.offlineFps,
+        smooth: coachRef.current.smooth,
+        poseThreshold: analyzeConfig.poseThreshold,
+        onProgress,
+      });
+    },
+    [analyzeConfig.offlineFps, analyzeConfig.poseThreshold]
+  );
 
-      lastPoseRef.current = person;
-      drawPoseOnCanvas(person);
-      const sc = scoreFromPose(person, analyzeConfig);
-      setScores(sc);
-    });
+  // 6.1) 点击画面确认篮筐位置
+  const handleRimClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const cvs = canvasRef.current;
+    if (!cvs) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * cvs.width;
+    const y = ((e.clientY - rect.top) / rect.height) * cvs.height;
+    const r = rimFromClick(x, y, autoRimRef.current, cvs.width);
+    updateRim(r);
+    drawRimOnCanvas(r);
+    setPickingRim(false);
+    if (seqRef.current.length) rescore();
+  };
 
-    // 进循环
-    loop();
-  }, [analyzeConfig, drawPoseOnCanvas, mpReady]);
+  // 6.2) 锁定 / 解除锁定要分析的人；已经识别过的部分直接换成这个人的时序重新打分
+  const applyLock = useCallback(
+    (id: string | null) => {
+      lockedIdRef.current = id;
+      setLockedId(id);
+      engineRef.current?.lock(id);
+      const seq = id ? tracksRef.current.get(id) ?? [] : autoSeqRef.current;
+      if (!seq.length) return;
+      seqRef.current = [...seq];
+      lastPoseRef.current = seq[seq.length - 1];
+      rescore();
+    },
+    [rescore]
+  );
+
+  // 点击画面选人：分析中看引擎当前这一帧，分析完看暂停位置附近那一帧
+  const handlePersonClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const cvs = canvasRef.current;
+    if (!cvs) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * cvs.width;
+    const y = ((e.clientY - rect.top) / rect.height) * cvs.height;
+    let candidates = engineRef.current?.tracked ?? [];
+    if (!isAnalyzing) {
+      const t = (videoRef.current?.currentTime ?? 0) * 1000;
+      const tol = Math.max(100, 1500 / analyzeConfig.offlineFps);
+      candidates = [];
+      for (const seq of Array.from(tracksRef.current.values())) {
+        const near = seq.reduce<PoseResult | null>(
+          (best, p) => (!best || Math.abs(p.ts - t) < Math.abs(best.ts - t) ? p : best),
+          null
+        );
+        if (near && Math.abs(near.ts - t) <= tol) candidates.push(near);
+      }
+    }
+    setPickingPerson(false);
+    const hit = personAt(candidates, x, y);
+    if (!hit) {
+      alert('这个位置没有识别到人，把视频停在投篮的人清楚出现的地方再点');
+      return;
+    }
+    applyLock(hit.id);
+    drawPoseOnCanvas(hit, candidates);
+  };
 
   // 清掉 RAF
   useEffect(() => {
@@ -333,6 +636,42 @@ export default function VideoAnalyzer() {
     };
   }, []);
 
+  // 当前选中这一次投篮的时序；session 每次重新打分都会换，跟着它算一次就行
+  const shotSeq = useMemo(() => {
+    const shot = session?.shots[shotIdx];
+    return shot ? seqRef.current.slice(shot.startIdx, shot.endIdx + 1) : [];
+  }, [session, shotIdx]);
+
+  // 校准过的距离类数值后面补一个厘米数
+  const cmText = (value: number | undefined, unit: ScoreUnit | undefined) => {
+    const cm = value === undefined ? null : toCentimetres(value, unit, scores.scale);
+    return cm === null ? '' : ` ≈${cm.toFixed(0)}${unit?.endsWith('/s') ? 'cm/s' : 'cm'}`;
+  };
+
+  // 没量出来的大项（比如没跟到球）不上雷达图
+  const measuredBuckets = scores.buckets.filter((b) => b.measured);
+
+  // 只提示打分用得到的身体关键点，脸上、手指的点丢了不影响
+  const bodyGaps = (scores.gaps ?? []).filter((g) => /_(shoulder|elbow|wrist|index|hip|knee|ankle)$/.test(g.name));
+  const gapText = (g: KeypointGap) =>
+    `${jointLabel(g.name)} ${((g.startTs - phaseBase) / 1000).toFixed(1)}~${((g.endTs - phaseBase) / 1000).toFixed(1)}s`;
+
+  // 被机位排除掉的项，按该用哪个机位拍分组
+  const viewHints = useMemo(() => {
+    const groups = new Map<CameraView, string[]>();
+    for (const b of scores.buckets) {
+      for (const it of b.items) {
+        if (it.viewScale !== 0) continue;
+        const best = bestViewFor(it.key);
+        if (best) groups.set(best, [...(groups.get(best) ?? []), it.label]);
+      }
+    }
+    return Array.from(groups, ([view, labels]) => ({ view, labels }));
+  }, [scores]);
+
+  // 阶段时间显示成相对第一帧的秒数
+  const phaseBase = scores.phases?.[0]?.startTs ?? 0;
+
   return (
     <div className="space-y-4">
       {/* 顶部 */}
@@ -340,6 +679,9 @@ export default function VideoAnalyzer() {
         <h1 className="text-2xl font-semibold text-slate-100">开始分析你的投篮</h1>
         <p className="text-slate-400 text-sm mt-1">
           BUILD: <span className="font-mono">coach-v3.9-release+wrist+color</span>
+          <Link href="/history" className="ml-3 text-cyan-300 hover:text-cyan-200">
+            历史记录与进步趋势 →
+          </Link>
         </p>
       </div>
 
@@ -372,8 +714,132 @@ export default function VideoAnalyzer() {
         >
           {isAnalyzing ? '识别中…' : '开始分析'}
         </button>
+        <button
+          onClick={() => setPickingRim((p) => !p)}
+          disabled={!videoUrl}
+          className="px-4 py-2 bg-slate-700 rounded text-slate-100 text-sm"
+        >
+          {rim ? (rim.source === 'manual' ? '篮筐已确认' : '确认篮筐') : '标记篮筐'}
+        </button>
+        <button
+          onClick={() => setPickingPerson((p) => !p)}
+          disabled={!session && !isAnalyzing}
+          className={`px-4 py-2 rounded text-sm ${
+            session || isAnalyzing ? 'bg-slate-700 text-slate-100' : 'bg-slate-800 text-slate-500'
+          }`}
+        >
+          {lockedId ? `已锁定 ${lockedId}` : '选投篮的人'}
+        </button>
+        {lockedId ? (
+          <button
+            onClick={() => {
+              applyLock(null);
+              drawPoseOnCanvas(lastPoseRef.current);
+            }}
+            className="text-xs text-cyan-300"
+          >
+            解除锁定
+          </button>
+        ) : null}
+        <div className="relative">
+          <button
+            onClick={() => setShowExport((v) => !v)}
+            disabled={!session || isAnalyzing || videoExport !== null}
+            className={`px-4 py-2 rounded text-sm ${
+              session && !isAnalyzing && videoExport === null
+                ? 'bg-slate-700 text-slate-100'
+                : 'bg-slate-800 text-slate-500'
+            }`}
+          >
+            {videoExport !== null ? `生成视频 ${Math.round(videoExport * 100)}%` : '导出'}
+          </button>
+          {showExport ? (
+            <div className="absolute z-10 mt-1 w-48 bg-slate-900 border border-slate-700 rounded shadow-lg text-sm">
+              <button
+                onClick={() => handleExport('json')}
+                className="block w-full text-left px-3 py-2 hover:bg-slate-800"
+              >
+                完整分析（JSON）
+              </button>
+              <button
+                onClick={() => handleExport('frames')}
+                className="block w-full text-left px-3 py-2 hover:bg-slate-800"
+              >
+                逐帧数据（CSV）
+              </button>
+              <button
+                onClick={() => handleExport('shots')}
+                className="block w-full text-left px-3 py-2 hover:bg-slate-800"
+              >
+                逐次投篮（CSV）
+              </button>
+              <button
+                onClick={() => handleExport('video')}
+                disabled={!pickRecorderMime()}
+                className="block w-full text-left px-3 py-2 hover:bg-slate-800 disabled:text-slate-500"
+              >
+                带标注视频（WebM）
+                <span className="block text-xs text-slate-500">会从头实时播放一遍，耗时约等于视频长度</span>
+              </button>
+              <a
+                href="/docs/EXPORT_SCHEMA.md"
+                target="_blank"
+                rel="noreferrer"
+                className="block px-3 py-2 text-xs text-slate-400 hover:text-slate-200 border-t border-slate-800"
+              >
+                字段说明
+              </a>
+            </div>
+          ) : null}
+        </div>
+        <button
+          onClick={handleReport}
+          disabled={!session || isAnalyzing || makingReport || videoExport !== null}
+          className={`px-4 py-2 rounded text-sm ${
+            session && !isAnalyzing && !makingReport && videoExport === null
+              ? 'bg-slate-700 text-slate-100'
+              : 'bg-slate-800 text-slate-500'
+          }`}
+        >
+          {makingReport ? '生成报告中…' : '生成报告'}
+        </button>
+        {videoExport !== null ? (
+          <button
+            onClick={() => {
+              videoExportStopRef.current = true;
+            }}
+            className="px-4 py-2 bg-slate-700 rounded text-slate-100 text-sm"
+          >
+            取消生成
+          </button>
+        ) : null}
+        {isAnalyzing && analyzeConfig.mode === 'offline' ? (
+          <button
+            onClick={() => {
+              stopRef.current = true;
+            }}
+            className="px-4 py-2 bg-slate-700 rounded text-slate-100 text-sm"
+          >
+            停止
+          </button>
+        ) : null}
       </div>
 
+      {/* 离线逐帧进度 */}
+      {progress ? (
+        <div className="space-y-1">
+          <div className="h-2 bg-slate-800 rounded overflow-hidden">
+            <div
+              className="h-full bg-sky-500"
+              style={{ width: `${(progress.done / (progress.total || 1)) * 100}%` }}
+            />
+          </div>
+          <p className="text-slate-400 text-xs">
+            逐帧分析 {progress.done} / {progress.total} 帧（{analyzeConfig.offlineFps} 帧/秒采样）
+          </p>
+        </div>
+      ) : null}
+
       {/* 视频 + 骨架 */}
       <div
         className="relative bg-black rounded-lg overflow-hidden"
@@ -397,6 +863,26 @@ export default function VideoAnalyzer() {
               ref={canvasRef}
               className="pointer-events-none absolute inset-0 w-full h-full"
             />
+            {pickingRim ? (
+              <div
+                onClick={handleRimClick}
+                className="absolute inset-0 cursor-crosshair bg-black/20 flex items-start justify-center"
+              >
+                <span className="mt-2 px-2 py-1 rounded bg-slate-900/80 text-xs text-amber-300">
+                  点击篮筐中心
+                </span>
+              </div>
+            ) : null}
+            {pickingPerson ? (
+              <div
+                onClick={handlePersonClick}
+                className="absolute inset-0 cursor-pointer bg-black/20 flex items-start justify-center"
+              >
+                <span className="mt-2 px-2 py-1 rounded bg-slate-900/80 text-xs text-amber-300">
+                  点击要分析的人，之后只分析这个人
+                </span>
+              </div>
+            ) : null}
           </>
         ) : (
           <div className="flex items-center justify-center h-64 text-slate-400 text-sm">
@@ -405,125 +891,152 @@ export default function VideoAnalyzer() {
         )}
       </div>
 
+      {/* 长视频：逐次投篮 + 整组统计 */}
+      {session ? (
+        <ShotList session={session} selected={shotIdx} onSelect={handleSelectShot} coach={coach} />
+      ) : null}
+
+      {/* 参考动作对比，比的是当前选中的这一次 */}
+      {session?.shots[shotIdx] && !isAnalyzing ? (
+        <ShotCompare
+          player={shotSeq}
+          playerHand={scores.hand ?? null}
+          coach={coach}
+          loadVideo={loadReferenceVideo}
+          disabled={!poseReady}
+        />
+      ) : null}
+
+      {/* 和存下的模板动作比相似度，同样是当前选中的这一次 */}
+      {session?.shots[shotIdx] && !isAnalyzing ? (
+        <TemplateSimilarity
+          seq={shotSeq}
+          phases={scores.phases ?? []}
+          hand={scores.hand ?? null}
+          templates={coach.templates ?? []}
+          onSaveTemplate={(tpl) =>
+            handleCoachChange({
+              ...coach,
+              templates: [...(coach.templates ?? []).filter((t) => t.name !== tpl.name), tpl],
+            })
+          }
+        />
+      ) : null}
+
+      {/* 原始和平滑后的关节曲线对照，调平滑参数用 */}
+      {session?.shots[shotIdx] && !isAnalyzing ? (
+        <FilterDebug seq={shotSeq} hand={scores.hand ?? null} smooth={coach.smooth} />
+      ) : null}
+
       {/* 雷达图 */}
       <div className="bg-slate-900/40 rounded-lg p-4">
-        <RadarChart
-          lower={scores.lower.score}
-          upper={scores.upper.score}
-          balance={scores.balance.score}
-        />
+        <RadarChart axes={measuredBuckets.map((b) => ({ label: b.name, value: b.score }))} />
         <p className="text-slate-400 text-xs mt-2">
-          下肢：{scores.lower.score}，上肢：{scores.upper.score}，平衡：{scores.balance.score}
+          {measuredBuckets.map((b) => `${b.name}：${b.score}`).join('，')}
         </p>
       </div>
 
       {/* 分数明细 */}
       <div className="space-y-4">
-        <div className="text-slate-100 text-lg font-medium">总分：{scores.total}</div>
-
-        {/* 下肢 */}
-        <div className="bg-slate-900/60 rounded-lg p-4">
-          <div className="flex justify-between items-center">
-            <div className="text-slate-100 font-medium">下肢动力链</div>
-            <div className="text-cyan-300 text-xl font-semibold">
-              {scores.lower.score}
-            </div>
-          </div>
-          <div className="mt-2 space-y-1 text-sm text-slate-200">
-            <div className="flex justify-between">
-              <span>下蹲深度（膝角）</span>
-              <span>
-                {scores.lower.squat.score}{' '}
-                <span className="text-slate-400">({scores.lower.squat.value})</span>
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span>伸膝速度</span>
-              <span>
-                {scores.lower.kneeExt.score}{' '}
-                <span className="text-slate-400">({scores.lower.kneeExt.value})</span>
-              </span>
-            </div>
-          </div>
+        <div className="text-slate-100 text-lg font-medium">
+          总分：{scores.total}
+          {scores.outcome ? (
+            <span
+              className={`ml-3 text-sm px-2 py-0.5 rounded ${
+                scores.outcome === 'make' ? 'bg-emerald-600' : 'bg-rose-600'
+              }`}
+            >
+              {OUTCOME_LABELS[scores.outcome]}
+            </span>
+          ) : null}
+          {scores.hand ? (
+            <span className="ml-3 text-xs text-slate-400">
+              投篮手：{HAND_LABELS[scores.hand]}
+              {scores.handSource === 'auto' ? '（自动识别，可在配置里改）' : '（手动指定）'}
+            </span>
+          ) : null}
+          {scores.scale?.calibratedBy ? (
+            <span className="ml-3 text-xs text-slate-400">
+              已校准（{scores.scale.calibratedBy === 'rim' ? '篮筐 3.05 米' : `身高 ${analyzeConfig.calibration.playerHeightCm} cm`}）
+            </span>
+          ) : null}
+          {scores.view ? (
+            <span className="ml-3 text-xs text-slate-400">
+              机位：{VIEW_LABELS[scores.view.view]}
+              {scores.view.source === 'auto'
+                ? `（自动识别，把握 ${Math.round(scores.view.confidence * 100)}%）`
+                : '（手动指定）'}
+            </span>
+          ) : null}
         </div>
 
-        {/* 上肢 */}
-        <div className="bg-slate-900/60 rounded-lg p-4">
-          <div className="flex justify-between items-center">
-            <div className="text-slate-100 font-medium">上肢出手</div>
-            <div className="text-cyan-300 text-xl font-semibold">
-              {scores.upper.score}
-            </div>
+        {/* 关键点长时间丢失：相关指标没计分 */}
+        {bodyGaps.length ? (
+          <div className="bg-amber-900/30 border border-amber-700/50 rounded-lg p-3 text-xs text-amber-200">
+            这些关键点丢失太久没法补：{bodyGaps.map(gapText).join('，')}。依赖它们的指标标成“不可靠”，没有计分；换个没遮挡的角度，或者调低配置里的关键点置信度门限再试。
+            {scores.filled ? ` 另有 ${scores.filled} 个短暂丢失的点已用前后帧补上。` : ''}
           </div>
-          <div className="mt-2 space-y-1 text-sm text-slate-200">
-            <div className="flex justify-between">
-              <span>出手角</span>
-              <span>
-                {scores.upper.releaseAngle.score}{' '}
-                <span className="text-slate-400">
-                  ({scores.upper.releaseAngle.value})
-                </span>
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span>腕部发力</span>
-              <span>
-                {scores.upper.armPower.score}{' '}
-                <span className="text-slate-400">
-                  ({scores.upper.armPower.value})
-                </span>
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span>随挥保持</span>
-              <span>
-                {scores.upper.follow.score}{' '}
-                <span className="text-slate-400">
-                  ({scores.upper.follow.value})
-                </span>
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span>肘部路径紧凑</span>
-              <span>
-                {scores.upper.elbowTight.score}{' '}
-                <span className="text-slate-400">
-                  ({scores.upper.elbowTight.value})
-                </span>
-              </span>
-            </div>
+        ) : null}
+
+        {/* 这个机位量不准的项，提示换个角度再拍 */}
+        {viewHints.length ? (
+          <div className="bg-amber-900/30 border border-amber-700/50 rounded-lg p-3 text-xs text-amber-200 space-y-1">
+            {viewHints.map((h) => (
+              <div key={h.view}>
+                {h.labels.join('、')}：{VIEW_LABELS[scores.view!.view]}机位量不准，没有计分，想看这几项请从
+                {VIEW_LABELS[h.view]}再拍一段。
+              </div>
+            ))}
           </div>
-        </div>
+        ) : null}
 
-        {/* 平衡 */}
-        <div className="bg-slate-900/60 rounded-lg p-4">
-          <div className="flex justify-between items-center">
-            <div className="text-slate-100 font-medium">对齐与平衡</div>
-            <div className="text-cyan-300 text-xl font-semibold">
-              {scores.balance.score}
+        {/* 动作阶段 */}
+        {scores.phases?.length ? (
+          <div className="bg-slate-900/60 rounded-lg p-4">
+            <div className="text-slate-100 font-medium mb-2">动作阶段</div>
+            <div className="grid grid-cols-3 gap-2 text-xs text-slate-300">
+              {scores.phases.map((ph) => (
+                <div key={ph.name} className="bg-slate-800/60 rounded px-2 py-1">
+                  <span className="text-slate-100">{PHASE_LABELS[ph.name]}</span>{' '}
+                  {((ph.startTs - phaseBase) / 1000).toFixed(2)}s ~{' '}
+                  {((ph.endTs - phaseBase) / 1000).toFixed(2)}s
+                </div>
+              ))}
             </div>
           </div>
-          <div className="mt-2 space-y-1 text-sm text-slate-200">
-            <div className="flex justify-between">
-              <span>重心稳定（横摆）</span>
-              <span>
-                {scores.balance.center.score}{' '}
-                <span className="text-slate-400">
-                  ({scores.balance.center.value})
-                </span>
-              </span>
+        ) : null}
+
+        {/* 各 bucket 明细，全部来自 CoachConfig.weights */}
+        {scores.buckets.map((bucket) => (
+          <div key={bucket.name} className="bg-slate-900/60 rounded-lg p-4">
+            <div className="flex justify-between items-center">
+              <div className="text-slate-100 font-medium">{bucket.name}</div>
+              <div className="text-cyan-300 text-xl font-semibold">{bucket.score}</div>
             </div>
-            <div className="flex justify-between">
-              <span>对齐</span>
-              <span>
-                {scores.balance.align.score}{' '}
-                <span className="text-slate-400">
-                  ({scores.balance.align.value})
-                </span>
-              </span>
+            <div className="mt-2 space-y-1 text-sm text-slate-200">
+              {bucket.items.map((it) => (
+                <div key={it.key} className="flex justify-between">
+                  <span>{it.label}</span>
+                  <span>
+                    {it.measured && it.viewScale !== undefined && it.viewScale < 1 ? (
+                      <span className="text-amber-300 text-xs mr-1" title="当前机位看不太准，权重打了折">
+                        机位权重×{it.viewScale}
+                      </span>
+                    ) : null}
+                    {it.measured ? it.score : '-'}{' '}
+                    <span className="text-slate-400">
+                      (
+                      {it.measured
+                        ? formatValue(it.value, it.unit) + cmText(it.value, it.unit as ScoreUnit)
+                        : scores.missing[it.key as FeatureKey] ?? '未检测'}
+                      )
+                    </span>
+                  </span>
+                </div>
+              ))}
             </div>
           </div>
-        </div>
+        ))}
 
         {/* 建议 */}
         {scores.suggestions.length ? (
@@ -541,44 +1054,191 @@ export default function VideoAnalyzer() {
       {/* 配置面板 */}
       {showConfig ? (
         <div className="fixed inset-x-0 bottom-0 bg-slate-900/95 border-t border-slate-700 p-4 rounded-t-lg space-y-3">
-          <div className="flex justify-between items-center">
+          <ConfigPanel
+            open={showConfig}
+            value={coach}
+            onChange={handleCoachChange}
+            onClose={() => setShowConfig(false)}
+          />
+          <div className="text-slate-200 text-sm border-t border-slate-700 pt-2">
             <div className="text-slate-100 font-medium text-base">分析配置</div>
-            <button
-              onClick={() => setShowConfig(false)}
-              className="text-slate-300 text-sm"
-            >
-              关闭
-            </button>
-          </div>
-          <div className="text-slate-200 text-sm">
             <div className="flex justify-between py-1">
-              <span>模型复杂度</span>
-              <span>{analyzeConfig.model === 'mediapipe-full' ? 'Mediapipe Pose full' : 'Mediapipe Pose lite'}</span>
+              <span>姿态模型</span>
+              <select
+                value={analyzeConfig.backend}
+                disabled={isAnalyzing}
+                onChange={(e) =>
+                  setAnalyzeConfig((c) => ({
+                    ...c,
+                    backend: e.target.value as AnalyzeConfig['backend'],
+                  }))
+                }
+                className="bg-slate-800 border border-slate-700 rounded px-2 text-slate-100"
+              >
+                <option value="auto">按配置的模型偏好（{MODEL_PREF_LABELS[coach.modelPreference]}）</option>
+                {(Object.keys(BACKEND_LABELS) as PoseBackendId[]).map((id) => (
+                  <option key={id} value={id}>
+                    {BACKEND_LABELS[id]}
+                  </option>
+                ))}
+              </select>
             </div>
-            <div className="flex justify-between py-1">
-              <span>平滑强度</span>
+            <div className="flex justify-between py-1 text-xs text-slate-400">
+              <span>当前在用</span>
               <span>
-                OneEuro ({analyzeConfig.poseSmoothing.minCutoff} / {analyzeConfig.poseSmoothing.beta})
+                {backendLoad?.backend
+                  ? `${BACKEND_LABELS[backendLoad.backend.id]}${
+                      backendLoad.backend.layout === 'coco17' ? '（17 点，没有手指、脚跟，相关项不打分）' : ''
+                    }`
+                  : backendLoad
+                  ? '没有可用的'
+                  : '加载中…'}
+              </span>
+            </div>
+            <div className="flex justify-between py-1">
+              <span>分析方式</span>
+              <select
+                value={analyzeConfig.mode}
+                disabled={isAnalyzing}
+                onChange={(e) =>
+                  setAnalyzeConfig((c) => ({
+                    ...c,
+                    mode: e.target.value as AnalyzeConfig['mode'],
+                  }))
+                }
+                className="bg-slate-800 border border-slate-700 rounded px-2 text-slate-100"
+              >
+                <option value="offline">逐帧离线（{analyzeConfig.offlineFps} 帧/秒，可复现）</option>
+                <option value="realtime">边播边分析</option>
+              </select>
+            </div>
+            <div className="flex justify-between py-1">
+              <span>投篮手</span>
+              <select
+                value={analyzeConfig.shootingHand}
+                onChange={(e) =>
+                  setAnalyzeConfig((c) => ({
+                    ...c,
+                    shootingHand: e.target.value as AnalyzeConfig['shootingHand'],
+                  }))
+                }
+                className="bg-slate-800 border border-slate-700 rounded px-2 text-slate-100"
+              >
+                <option value="auto">自动识别</option>
+                <option value="right">右手</option>
+                <option value="left">左手</option>
+              </select>
+            </div>
+            <div className="flex justify-between py-1">
+              <span>机位</span>
+              <select
+                value={analyzeConfig.cameraView}
+                onChange={(e) =>
+                  setAnalyzeConfig((c) => ({
+                    ...c,
+                    cameraView: e.target.value as AnalyzeConfig['cameraView'],
+                  }))
+                }
+                className="bg-slate-800 border border-slate-700 rounded px-2 text-slate-100"
+              >
+                <option value="auto">自动识别</option>
+                <option value="side">侧面</option>
+                <option value="front">正面</option>
+                <option value="oblique">45°</option>
+              </select>
+            </div>
+            <div className="flex justify-between py-1">
+              <span>厘米校准</span>
+              <span className="flex items-center gap-2">
+                <select
+                  value={analyzeConfig.calibration.mode}
+                  onChange={(e) =>
+                    setAnalyzeConfig((c) => ({
+                      ...c,
+                      calibration: { ...c.calibration, mode: e.target.value as CalibrationMode },
+                    }))
+                  }
+                  className="bg-slate-800 border border-slate-700 rounded px-2 text-slate-100"
+                >
+                  <option value="none">不校准</option>
+                  <option value="rim" disabled={!rim}>
+                    按篮筐高度（{rim ? '3.05 米' : '先标记篮筐'}）
+                  </option>
+                  <option value="height">按球员身高</option>
+                </select>
+                {analyzeConfig.calibration.mode === 'height' ? (
+                  <input
+                    type="number"
+                    min={100}
+                    max={230}
+                    value={analyzeConfig.calibration.playerHeightCm}
+                    onChange={(e) => {
+                      const v = Number(e.target.value);
+                      if (v > 0)
+                        setAnalyzeConfig((c) => ({ ...c, calibration: { ...c.calibration, playerHeightCm: v } }));
+                    }}
+                    className="w-16 bg-slate-800 border border-slate-700 rounded px-1 text-slate-100"
+                  />
+                ) : null}
+                {analyzeConfig.calibration.mode === 'height' ? 'cm' : null}
+              </span>
+            </div>
+            <div className="flex justify-between py-1">
+              <span>关键点置信度门限</span>
+              <span className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={analyzeConfig.poseThreshold}
+                  onChange={(e) => setAnalyzeConfig((c) => ({ ...c, poseThreshold: Number(e.target.value) }))}
+                />
+                <span className="w-8 text-right">{analyzeConfig.poseThreshold.toFixed(2)}</span>
               </span>
             </div>
             <div className="flex justify-between py-1">
-              <span>姿态阈值</span>
-              <span>{analyzeConfig.poseThreshold}</span>
+              <span>最长补帧</span>
+              <select
+                value={analyzeConfig.maxGapMs}
+                onChange={(e) => setAnalyzeConfig((c) => ({ ...c, maxGapMs: Number(e.target.value) }))}
+                className="bg-slate-800 border border-slate-700 rounded px-2 text-slate-100"
+              >
+                {[0, 100, 200, 300, 500].map((ms) => (
+                  <option key={ms} value={ms}>
+                    {ms ? `${ms} 毫秒` : '不补'}
+                  </option>
+                ))}
+              </select>
             </div>
-            <p className="text-slate-500 text-xs mt-2">
-              这些配置先写死在前端，如果你要做“后台配置”或者“按球员自动配置”，这里再接接口即可。
-            </p>
           </div>
         </div>
       ) : null}
 
-      {/* 如果 CDN 拉不到给个提示 */}
-      {!mpReady && mpTried ? (
+      {historyError ? (
+        <p className="text-rose-300 text-xs">这次结果没能存进历史记录：{historyError}</p>
+      ) : null}
+
+      {configDropped ? (
+        <p className="text-amber-400 text-xs whitespace-pre-wrap">
+          ⚠️ 上次保存的打分配置读不出来，这次先用默认配置（原来的没有被覆盖，改动配置后才会存成新的）：
+          {configDropped.join('；')}
+        </p>
+      ) : null}
+
+      {/* 姿态后端加载失败：全都不行，或者回退到了别的后端 */}
+      {backendLoad && !backendLoad.backend ? (
         <p className="text-amber-400 text-xs">
-          ⚠️ 当前没能从本地/CDN 加载 Mediapipe Pose，你可以把官方的 pose.js 放到
+          ⚠️ 所有姿态模型都没加载成功（{backendLoad.failed.map((f) => `${BACKEND_LABELS[f.id]}：${f.error}`).join('；')}）。
+          可以把官方 MediaPipe 的 pose.js 放到
           <code className="mx-1">/public/mp/pose/</code>
           下面再试一次。
         </p>
+      ) : backendLoad?.backend && backendLoad.failed.length ? (
+        <p className="text-amber-400 text-xs">
+          ⚠️ {backendLoad.failed.map((f) => BACKEND_LABELS[f.id]).join('、')}没加载成功，已改用
+          {BACKEND_LABELS[backendLoad.backend.id]}。
+        </p>
       ) : null}
     </div>
   );
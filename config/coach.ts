@@ -2,10 +2,17 @@
 
 export type ScoreBetter = 'closer' | '>=|' | '<=|'
 
+// 距离类一律用身体比例：torso 躯干长度、shin 小腿长度（pct 是老配置留下的“躯干长度的百分比”）
+// cm 要先校准（标篮筐或填身高），没校准时这一项不打分；px 跟人离镜头远近有关，只为兼容老配置保留
+export type ScoreUnit =
+  | 'deg' | 'deg/s' | 's'
+  | 'torso' | 'torso/s' | 'shin' | 'shin/s' | 'cm' | 'cm/s'
+  | 'pct' | 'px'
+
 export type ScoreRule = {
   target: number
   tolerance: number
-  unit?: 'deg' | 'pct' | 'px' | 's'
+  unit?: ScoreUnit
   better?: ScoreBetter
 }
 
@@ -32,11 +39,49 @@ export type ScoringWindow = {
   postReleaseSec?: number
 }
 
+// 动作模板：从某次分析录下来的标准动作，用来算“像不像”（见 lib/compare/similarity.ts）
+// 关键点已经归一化：髋中点为原点，躯干长度为 1，y 向下
+export type TemplateFrame = {
+  t: number // 相对出手时刻的毫秒，出手前为负
+  points: Record<string, [number, number]>
+}
+
+export type MotionTemplate = {
+  name: string
+  createdAt: string // ISO 时间
+  hand: 'left' | 'right'
+  frames: TemplateFrame[]
+  // 各阶段在 frames 里的下标范围
+  phases: { name: string; startIdx: number; endIdx: number }[]
+}
+
+// 关键点平滑用哪种滤波器，见 lib/filters/smoothing.ts
+export type SmoothFilterKind = 'oneEuro' | 'kalman' | 'zeroPhase'
+
+export type SmoothConfig = {
+  // 老配置没有这一项，按 oneEuro
+  filter?: SmoothFilterKind
+  // oneEuro
+  minCutoff: number
+  beta: number
+  dCutoff: number
+  // kalman：加速度标准差（像素/秒²）、测量误差标准差（像素）
+  processNoise?: number
+  measurementNoise?: number
+  // zeroPhase：截止频率（Hz）
+  cutoffHz?: number
+}
+
+// 配置结构每次不兼容的改动都要 +1，并在 config/schema.ts 里补一个迁移
+export const COACH_CONFIG_VERSION = 5
+
 export type CoachConfig = {
+  version: number
+  // 姿态模型偏好：blaze-* 优先用 MediaPipe（33 点），movenet 用 TFJS MoveNet（能识别多人，但只有 17 点），见 lib/pose/backend.ts
   modelPreference: 'blaze-full' | 'blaze-lite' | 'movenet'
   enableSmartCrop: boolean
   enableOpenCV: boolean
-  smooth: { minCutoff: number; beta: number; dCutoff: number }
+  smooth: SmoothConfig
   thresholds: {
     kneeMin: number
     kneeMax: number
@@ -46,16 +91,23 @@ export type CoachConfig = {
   scoring?: ScoringWindow
   releaseDetect?: ReleaseDetectConfig
   weights: WeightBucket[]
+  // 新加的可选项，老配置没有也照样能用，不用升版本
+  templates?: MotionTemplate[]
 }
 
 export const DEFAULT_CONFIG: CoachConfig = {
-  modelPreference: 'movenet',
+  version: COACH_CONFIG_VERSION,
+  modelPreference: 'blaze-full',
   enableSmartCrop: true,
   enableOpenCV: false,
   smooth: {
-    minCutoff: 1,
-    beta: 0.02,
-    dCutoff: 1,
+    filter: 'zeroPhase',
+    minCutoff: 1.15,
+    beta: 0.05,
+    dCutoff: 1.0,
+    processNoise: 3000,
+    measurementNoise: 3,
+    cutoffHz: 6,
   },
   thresholds: {
     kneeMin: 60,
@@ -94,7 +146,7 @@ export const DEFAULT_CONFIG: CoachConfig = {
           rule: {
             target: 260,
             tolerance: 180,
-            unit: 'deg',
+            unit: 'deg/s',
             better: '>=|',
           },
         },
@@ -109,8 +161,8 @@ export const DEFAULT_CONFIG: CoachConfig = {
           label: '出手角',
           weight: 0.35,
           rule: {
-            target: 115,
-            tolerance: 30,
+            target: 158, // 出手瞬间肩-肘-腕夹角
+            tolerance: 25,
             unit: 'deg',
             better: 'closer',
           },
@@ -144,7 +196,7 @@ export const DEFAULT_CONFIG: CoachConfig = {
           rule: {
             target: 0,
             tolerance: 0.3, // 放宽，别老 0 分
-            unit: 'pct',
+            unit: 'torso',
             better: '<=|',
           },
         },
@@ -161,7 +213,7 @@ export const DEFAULT_CONFIG: CoachConfig = {
           rule: {
             target: 0,
             tolerance: 0.09,
-            unit: 'pct',
+            unit: 'torso',
             better: '<=|',
           },
         },
@@ -172,11 +224,61 @@ export const DEFAULT_CONFIG: CoachConfig = {
           rule: {
             target: 0,
             tolerance: 0.12, // 放宽
-            unit: 'pct',
+            unit: 'torso',
             better: '<=|',
           },
         },
       ],
     },
+    {
+      name: '出手弧线',
+      weight: 0.2,
+      items: [
+        {
+          key: 'launchAngle',
+          label: '球出手角',
+          weight: 0.3,
+          rule: {
+            target: 50,
+            tolerance: 10,
+            unit: 'deg',
+            better: 'closer',
+          },
+        },
+        {
+          key: 'launchSpeed',
+          label: '出手速度',
+          weight: 0.2,
+          rule: {
+            target: 14, // 约 7 m/s，按躯干 0.5 m 折算
+            tolerance: 5,
+            unit: 'torso/s',
+            better: 'closer',
+          },
+        },
+        {
+          key: 'apexHeight',
+          label: '弧线最高点',
+          weight: 0.2,
+          rule: {
+            target: 4,
+            tolerance: 2,
+            unit: 'torso',
+            better: 'closer',
+          },
+        },
+        {
+          key: 'entryAngle',
+          label: '进筐角',
+          weight: 0.3,
+          rule: {
+            target: 45,
+            tolerance: 10,
+            unit: 'deg',
+            better: '>=|',
+          },
+        },
+      ],
+    },
   ],
 }
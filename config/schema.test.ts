@@ -0,0 +1,82 @@
+// config/schema.test.ts
+import { describe, expect, it } from 'vitest'
+import { COACH_CONFIG_VERSION, DEFAULT_CONFIG } from './coach'
+import { ConfigValidationError, configVersionOf, loadCoachConfig, migrateCoachConfig } from './schema'
+
+const clone = <T>(x: T): T => JSON.parse(JSON.stringify(x))
+
+const itemOf = (cfg: any, key: string) =>
+  cfg.weights.flatMap((b: any) => b.items).find((it: any) => it.key === key)
+
+// 按 v1.0.x 的样子造一份：没有 version、目标值在 scoring.baseline 里、没有出手弧线、老单位、老默认模型
+function makeV1(): Record<string, any> {
+  const cfg: any = clone(DEFAULT_CONFIG)
+  delete cfg.version
+  cfg.modelPreference = 'movenet'
+  cfg.weights = cfg.weights.filter((b: any) => !b.items.some((it: any) => it.key === 'launchAngle'))
+  itemOf(cfg, 'releaseAngle').rule.target = 115
+  itemOf(cfg, 'extendSpeed').rule.unit = 'deg'
+  for (const k of ['elbowCurve', 'stability', 'alignment']) itemOf(cfg, k).rule.unit = 'pct'
+  cfg.scoring = { ...cfg.scoring, baseline: { kneeDepth: 100 } }
+  return cfg
+}
+
+describe('migrateCoachConfig', () => {
+  it('没有 version 字段的当成 v1', () => {
+    expect(configVersionOf(makeV1())).toBe(1)
+    expect(configVersionOf(DEFAULT_CONFIG)).toBe(COACH_CONFIG_VERSION)
+  })
+
+  it('v1 一路迁到当前版本，并且能通过校验', () => {
+    const v1 = makeV1()
+    const cfg = loadCoachConfig(v1)
+    expect(cfg.version).toBe(COACH_CONFIG_VERSION)
+    // 1 → 2
+    expect(itemOf(cfg, 'kneeDepth').rule.target).toBe(100)
+    expect((cfg.scoring as any).baseline).toBeUndefined()
+    expect(itemOf(cfg, 'extendSpeed').rule.unit).toBe('deg/s')
+    // 2 → 3
+    expect(itemOf(cfg, 'launchAngle')).toBeDefined()
+    expect(itemOf(cfg, 'releaseAngle').rule.target).toBe(itemOf(DEFAULT_CONFIG, 'releaseAngle').rule.target)
+    // 3 → 4
+    for (const k of ['elbowCurve', 'stability', 'alignment']) expect(itemOf(cfg, k).rule.unit).toBe('torso')
+    // 4 → 5
+    expect(cfg.modelPreference).toBe(DEFAULT_CONFIG.modelPreference)
+    // 不改传进来的原对象
+    expect(v1.version).toBeUndefined()
+  })
+
+  it('v2 不再合并 baseline，自己改过的出手角保留', () => {
+    const v2: any = clone(DEFAULT_CONFIG)
+    v2.version = 2
+    v2.weights = v2.weights.filter((b: any) => !b.items.some((it: any) => it.key === 'launchAngle'))
+    itemOf(v2, 'releaseAngle').rule.target = 150
+    const cfg: any = migrateCoachConfig(v2)
+    expect(itemOf(cfg, 'releaseAngle').rule.target).toBe(150)
+    expect(cfg.weights.filter((b: any) => b.items.some((it: any) => it.key === 'launchAngle'))).toHaveLength(1)
+  })
+
+  it('v4 存的 movenet 是老默认值，换掉；v5 里自己选的 movenet 不动', () => {
+    const v4: any = { ...clone(DEFAULT_CONFIG), version: 4, modelPreference: 'movenet' }
+    expect(loadCoachConfig(v4).modelPreference).toBe(DEFAULT_CONFIG.modelPreference)
+    const v5: any = { ...clone(DEFAULT_CONFIG), modelPreference: 'movenet' }
+    expect(loadCoachConfig(v5).modelPreference).toBe('movenet')
+  })
+
+  it('比当前版本新的配置直接报错', () => {
+    const future = { ...clone(DEFAULT_CONFIG), version: COACH_CONFIG_VERSION + 1 }
+    expect(() => migrateCoachConfig(future)).toThrow(ConfigValidationError)
+  })
+
+  it('迁移完不合法的照样报出具体字段', () => {
+    const bad: any = clone(DEFAULT_CONFIG)
+    bad.weights[0].items[0].rule.tolerance = 0
+    try {
+      loadCoachConfig(bad)
+      throw new Error('应该校验失败')
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigValidationError)
+      expect((err as ConfigValidationError).issues).toEqual(['weights[0].items[0].rule.tolerance: 需要是大于 0 的数字'])
+    }
+  })
+})
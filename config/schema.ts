@@ -0,0 +1,264 @@
+// config/schema.ts
+// CoachConfig 的运行时校验 + 版本迁移。
+// 导入的 JSON、本地存的配置都要先过 loadCoachConfig，保证后面打分拿到的一定是完整、合法的当前版本。
+//
+// 版本历史：
+// 1  v1.0.x 发布时的格式，没有 version 字段；可能带 scoring.baseline（目标值单独存）
+// 2  目标值统一放进 rule.target，伸膝速度单位改成 deg/s
+// 3  加了“出手弧线”bucket；出手角改成肩-肘-腕夹角
+// 4  距离类指标统一用身体比例单位：肘部路径、重心稳定、对齐从 pct 改标成 torso（数值本来就是躯干长度的比例）
+// 5  modelPreference 开始真正决定用哪个姿态模型；老默认值 movenet 当时不起作用，改成 blaze-full
+
+import {
+  COACH_CONFIG_VERSION,
+  DEFAULT_CONFIG,
+  type CoachConfig,
+  type ScoreBetter,
+  type ScoreUnit,
+  type SmoothFilterKind,
+} from './coach'
+
+export class ConfigValidationError extends Error {
+  readonly issues: string[]
+
+  constructor(issues: string[]) {
+    super(`配置文件不合法：\n${issues.join('\n')}`)
+    this.name = 'ConfigValidationError'
+    this.issues = issues
+  }
+}
+
+const MODEL_PREFS: CoachConfig['modelPreference'][] = ['blaze-full', 'blaze-lite', 'movenet']
+const FILTERS: SmoothFilterKind[] = ['oneEuro', 'kalman', 'zeroPhase']
+const UNITS: ScoreUnit[] = ['deg', 'deg/s', 's', 'torso', 'torso/s', 'shin', 'shin/s', 'cm', 'cm/s', 'pct', 'px']
+const BETTERS: ScoreBetter[] = ['closer', '>=|', '<=|']
+
+const isObj = (x: unknown): x is Record<string, any> => !!x && typeof x === 'object' && !Array.isArray(x)
+const isNum = (x: unknown): x is number => typeof x === 'number' && Number.isFinite(x)
+
+// ---------- 迁移 ----------
+
+type Migration = {
+  from: number
+  migrate: (cfg: Record<string, any>) => Record<string, any>
+}
+
+const clone = <T>(x: T): T => JSON.parse(JSON.stringify(x))
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 1 → 2：scoring.baseline 合并进 rule.target；伸膝速度单位
+    from: 1,
+    migrate: (cfg) => {
+      const baseline = isObj(cfg.scoring?.baseline) ? cfg.scoring.baseline : {}
+      const weights = Array.isArray(cfg.weights) ? cfg.weights : []
+      for (const b of weights) {
+        for (const it of Array.isArray(b?.items) ? b.items : []) {
+          if (!isObj(it?.rule)) continue
+          if (isNum(baseline[it.key])) it.rule.target = baseline[it.key]
+          if (it.key === 'extendSpeed' && it.rule.unit === 'deg') it.rule.unit = 'deg/s'
+        }
+      }
+      if (isObj(cfg.scoring)) delete cfg.scoring.baseline
+      return cfg
+    },
+  },
+  {
+    // 2 → 3：补上出手弧线 bucket；出手角从前臂角（默认 115）改成肩-肘-腕夹角
+    from: 2,
+    migrate: (cfg) => {
+      const weights: any[] = Array.isArray(cfg.weights) ? cfg.weights : []
+      const flight = DEFAULT_CONFIG.weights.find((b) => b.items.some((it) => it.key === 'launchAngle'))
+      const hasFlight = weights.some((b) => Array.isArray(b?.items) && b.items.some((it: any) => it?.key === 'launchAngle'))
+      if (flight && !hasFlight) weights.push(clone(flight))
+      for (const b of weights) {
+        for (const it of Array.isArray(b?.items) ? b.items : []) {
+          if (it?.key === 'releaseAngle' && isObj(it.rule) && it.rule.target === 115) {
+            const def = DEFAULT_CONFIG.weights.flatMap((x) => x.items).find((x) => x.key === 'releaseAngle')
+            if (def) it.rule = { ...it.rule, target: def.rule.target, tolerance: def.rule.tolerance }
+          }
+        }
+      }
+      cfg.weights = weights
+      return cfg
+    },
+  },
+  {
+    // 3 → 4：这几项一直是除以躯干长度的比例，单位标成 torso
+    from: 3,
+    migrate: (cfg) => {
+      const keys = ['elbowCurve', 'stability', 'alignment']
+      for (const b of Array.isArray(cfg.weights) ? cfg.weights : []) {
+        for (const it of Array.isArray(b?.items) ? b.items : []) {
+          if (keys.includes(it?.key) && isObj(it.rule) && it.rule.unit === 'pct') it.rule.unit = 'torso'
+        }
+      }
+      return cfg
+    },
+  },
+  {
+    // 4 → 5：以前 modelPreference 没人读，存下来的 movenet 只是老默认值，不是用户选的；
+    // 现在它决定姿态模型，照搬会悄悄换成 17 点的 MoveNet，手腕下压等项就不打分了
+    from: 4,
+    migrate: (cfg) => {
+      if (cfg.modelPreference === 'movenet') cfg.modelPreference = DEFAULT_CONFIG.modelPreference
+      return cfg
+    },
+  },
+]
+
+// 没有 version 字段的都当成 v1.0.x 存下来的
+export function configVersionOf(data: unknown): number {
+  return isObj(data) && isNum(data.version) ? data.version : 1
+}
+
+export function migrateCoachConfig(data: unknown): unknown {
+  if (!isObj(data)) return data
+  const from = configVersionOf(data)
+  if (from > COACH_CONFIG_VERSION) {
+    throw new ConfigValidationError([
+      `version: 配置来自更新的版本（${from}），当前只支持到 ${COACH_CONFIG_VERSION}，请先升级`,
+    ])
+  }
+  let cfg = clone(data)
+  for (const m of MIGRATIONS) {
+    if (m.from >= from) cfg = m.migrate(cfg)
+  }
+  cfg.version = COACH_CONFIG_VERSION
+  return cfg
+}
+
+// ---------- 校验 ----------
+
+function checkRule(rule: unknown, path: string, issues: string[]) {
+  if (!isObj(rule)) {
+    issues.push(`${path}: 缺少打分规则`)
+    return
+  }
+  if (!isNum(rule.target)) issues.push(`${path}.target: 需要是数字`)
+  if (!isNum(rule.tolerance) || rule.tolerance <= 0) issues.push(`${path}.tolerance: 需要是大于 0 的数字`)
+  if (rule.unit !== undefined && !UNITS.includes(rule.unit)) {
+    issues.push(`${path}.unit: 只能是 ${UNITS.join(' / ')}`)
+  }
+  if (rule.better !== undefined && !BETTERS.includes(rule.better)) {
+    issues.push(`${path}.better: 只能是 ${BETTERS.join(' / ')}`)
+  }
+}
+
+function checkOptionalNums(obj: unknown, path: string, keys: string[], issues: string[]) {
+  if (obj === undefined) return
+  if (!isObj(obj)) {
+    issues.push(`${path}: 需要是对象`)
+    return
+  }
+  for (const k of keys) {
+    if (obj[k] !== undefined && !isNum(obj[k])) issues.push(`${path}.${k}: 需要是数字`)
+  }
+}
+
+// 模板帧数据多，只查结构，不逐个点报错
+function checkTemplates(templates: unknown, issues: string[]) {
+  if (!Array.isArray(templates)) {
+    issues.push('templates: 需要是数组')
+    return
+  }
+  const names = new Set<string>()
+  templates.forEach((t: unknown, ti: number) => {
+    const tp = `templates[${ti}]`
+    if (!isObj(t)) {
+      issues.push(`${tp}: 需要是对象`)
+      return
+    }
+    if (typeof t.name !== 'string' || !t.name) issues.push(`${tp}.name: 需要名字`)
+    else if (names.has(t.name)) issues.push(`${tp}.name: “${t.name}” 重复了`)
+    else names.add(t.name)
+    if (t.hand !== 'left' && t.hand !== 'right') issues.push(`${tp}.hand: 只能是 left / right`)
+    if (!Array.isArray(t.frames) || t.frames.length < 2) {
+      issues.push(`${tp}.frames: 至少要有两帧`)
+    } else if (!t.frames.every((f: any) => isObj(f) && isNum(f.t) && isObj(f.points))) {
+      issues.push(`${tp}.frames: 每帧需要 t（毫秒）和 points`)
+    }
+    if (!Array.isArray(t.phases)) issues.push(`${tp}.phases: 需要是数组`)
+  })
+}
+
+export function validateCoachConfig(data: unknown): CoachConfig {
+  const issues: string[] = []
+  if (!isObj(data)) throw new ConfigValidationError(['(根): 需要是一个 JSON 对象'])
+
+  if (data.version !== COACH_CONFIG_VERSION) issues.push(`version: 需要是 ${COACH_CONFIG_VERSION}`)
+  if (!MODEL_PREFS.includes(data.modelPreference)) {
+    issues.push(`modelPreference: 只能是 ${MODEL_PREFS.join(' / ')}`)
+  }
+  if (typeof data.enableSmartCrop !== 'boolean') issues.push('enableSmartCrop: 需要是 true/false')
+  if (typeof data.enableOpenCV !== 'boolean') issues.push('enableOpenCV: 需要是 true/false')
+
+  if (!isObj(data.smooth)) {
+    issues.push('smooth: 缺少平滑参数')
+  } else {
+    for (const k of ['minCutoff', 'beta', 'dCutoff']) {
+      if (!isNum(data.smooth[k]) || data.smooth[k] < 0) issues.push(`smooth.${k}: 需要是不小于 0 的数字`)
+    }
+    if (data.smooth.filter !== undefined && !FILTERS.includes(data.smooth.filter)) {
+      issues.push(`smooth.filter: 只能是 ${FILTERS.join(' / ')}`)
+    }
+    for (const k of ['processNoise', 'measurementNoise', 'cutoffHz']) {
+      if (data.smooth[k] !== undefined && (!isNum(data.smooth[k]) || data.smooth[k] <= 0)) {
+        issues.push(`smooth.${k}: 需要是大于 0 的数字`)
+      }
+    }
+  }
+
+  if (!isObj(data.thresholds)) {
+    issues.push('thresholds: 缺少阈值')
+  } else {
+    for (const k of ['kneeMin', 'kneeMax', 'releaseAngleIdeal', 'lateralOffsetMaxPct']) {
+      if (!isNum(data.thresholds[k])) issues.push(`thresholds.${k}: 需要是数字`)
+    }
+  }
+
+  checkOptionalNums(data.scoring, 'scoring', ['preReleaseSec', 'postReleaseSec'], issues)
+  checkOptionalNums(data.releaseDetect, 'releaseDetect', ['minElbowDeg', 'bodyWidthScale'], issues)
+
+  if (!Array.isArray(data.weights) || !data.weights.length) {
+    issues.push('weights: 至少要有一个评分大项')
+  } else {
+    const keys = new Set<string>()
+    data.weights.forEach((b: unknown, bi: number) => {
+      const bp = `weights[${bi}]`
+      if (!isObj(b)) {
+        issues.push(`${bp}: 需要是对象`)
+        return
+      }
+      if (typeof b.name !== 'string' || !b.name) issues.push(`${bp}.name: 需要名字`)
+      if (!isNum(b.weight) || b.weight < 0) issues.push(`${bp}.weight: 需要是不小于 0 的数字`)
+      if (!Array.isArray(b.items)) {
+        issues.push(`${bp}.items: 需要是数组`)
+        return
+      }
+      b.items.forEach((it: unknown, ii: number) => {
+        const ip = `${bp}.items[${ii}]`
+        if (!isObj(it)) {
+          issues.push(`${ip}: 需要是对象`)
+          return
+        }
+        if (typeof it.key !== 'string' || !it.key) issues.push(`${ip}.key: 需要是字符串`)
+        else if (keys.has(it.key)) issues.push(`${ip}.key: “${it.key}” 重复了`)
+        else keys.add(it.key)
+        if (typeof it.label !== 'string') issues.push(`${ip}.label: 需要是字符串`)
+        if (!isNum(it.weight) || it.weight < 0) issues.push(`${ip}.weight: 需要是不小于 0 的数字`)
+        checkRule(it.rule, `${ip}.rule`, issues)
+      })
+    })
+  }
+
+  if (data.templates !== undefined) checkTemplates(data.templates, issues)
+
+  if (issues.length) throw new ConfigValidationError(issues)
+  return data as CoachConfig
+}
+
+// 任何来源的配置都走这里：先迁移到当前版本，再校验
+export function loadCoachConfig(data: unknown): CoachConfig {
+  return validateCoachConfig(migrateCoachConfig(data))
+}
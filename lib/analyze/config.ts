@@ -1,67 +1,52 @@
 // lib/analyze/config.ts
 
 // 整个前端分析的可调配置都放这里，方便面板里展示/以后做接口下发
+// 打分规则（目标值、容差、权重）和关键点平滑参数不在这里，统一放 config/coach.ts
+
+import type { CalibrationMode } from './units';
+import type { PoseBackendId } from '../pose/backend';
 
 export type AnalyzeConfig = {
-  // mediapipe 用哪个复杂度
-  model: 'mediapipe-full' | 'mediapipe-lite';
+  // 姿态后端：auto 按 CoachConfig.modelPreference 挑，加载失败自动换下一个（见 lib/pose/backend.ts）
+  backend: 'auto' | PoseBackendId;
+  // realtime: 边播边识别；offline: 按固定采样率逐帧 seek，结果可复现
+  mode: 'realtime' | 'offline';
+  // 离线模式的采样率（帧/秒）
+  offlineFps: number;
+  // 篮球检测跟踪，缩小到这个宽度再找球
+  ball: {
+    enabled: boolean;
+    analysisWidth: number;
+  };
+  // 投篮手：auto 按动作自动判断，左撇子识别不准时可以手动指定
+  shootingHand: 'auto' | 'left' | 'right';
+  // 机位：auto 按肩宽/髋宽自动判断，判断错时可以手动指定
+  cameraView: 'auto' | 'side' | 'front' | 'oblique';
   // 关键点最低置信度，低于这个就当没检测到
   poseThreshold: number;
-  // 前端 OneEuro 平滑
-  poseSmoothing: {
-    minCutoff: number;
-    beta: number;
-    dCutoff: number;
-  };
-  // 评分用的标准值，全放这里
-  scoring: {
-    lower: {
-      // 下蹲角（膝角）小于等于这个视为 100 分
-      squatKneeAngleIdeal: number;
-      // 伸膝的目标角速度
-      kneeExtSpeedIdeal: number;
-    };
-    upper: {
-      // 出手角
-      releaseAngleIdeal: number;
-      // 腕部发力角度
-      armPowerIdeal: number;
-      // 随挥保持时间
-      followHoldIdeal: number;
-      // 肘部贴身百分比
-      elbowTightPctIdeal: number;
-    };
-    balance: {
-      // 横向重心偏移百分比（越小越好）
-      swayPctIdeal: number;
-      // 头肩到脚的纵向对齐角度，越接近 0 越好
-      alignDegIdeal: number;
-    };
+  // 丢点不超过这么久（毫秒）就用前后帧插值补上，更久的相关指标标成不可靠
+  maxGapMs: number;
+  // 厘米校准：rim 用标好的篮筐（3.05 米），height 用球员身高；不校准时只显示身体比例
+  calibration: {
+    mode: CalibrationMode;
+    playerHeightCm: number;
   };
 };
 
 export const DEFAULT_ANALYZE_CONFIG: AnalyzeConfig = {
-  model: 'mediapipe-full',
-  poseThreshold: 0.35,
-  poseSmoothing: {
-    minCutoff: 1.15,
-    beta: 0.05,
-    dCutoff: 1.0,
+  backend: 'auto',
+  mode: 'offline',
+  offlineFps: 30,
+  ball: {
+    enabled: true,
+    analysisWidth: 320,
   },
-  scoring: {
-    lower: {
-      squatKneeAngleIdeal: 165, // 库里这种直上直下视频一般在 160~175
-      kneeExtSpeedIdeal: 260, // 你之前页面里写的就是 260(度/秒)
-    },
-    upper: {
-      releaseAngleIdeal: 158,
-      armPowerIdeal: 35,
-      followHoldIdeal: 0.4,
-      elbowTightPctIdeal: 2,
-    },
-    balance: {
-      swayPctIdeal: 1, // 1% 左右
-      alignDegIdeal: 2, // 2 度左右
-    },
+  shootingHand: 'auto',
+  cameraView: 'auto',
+  poseThreshold: 0.35,
+  maxGapMs: 200,
+  calibration: {
+    mode: 'none',
+    playerHeightCm: 175,
   },
 };
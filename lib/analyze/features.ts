@@ -0,0 +1,233 @@
+// lib/analyze/features.ts
+// 从整段姿态时序里抽出 FeatureVector，key 和 config/coach.ts 里 WeightItem.key 一一对应。
+// 这里只负责“量”，打分全交给 lib/score/scorer.ts 按 CoachConfig 的规则来。
+
+import type { PoseResult } from '../pose/poseEngine';
+import { jointLabel, missingLabel } from '../pose/landmarks';
+import { fillKeypointGaps, gapsIn, type KeypointGap } from '../pose/gapFill';
+import { angle } from '../angles';
+import type { CoachConfig } from '../../config/coach';
+import { findRule, type FeatureVector } from '../score/scorer';
+import type { BallFrame } from '../ball/ballTracker';
+import { fitBallFlight, type BallFlight } from '../ball/trajectory';
+import { classifyShot, type Rim, type ShotOutcome } from '../ball/rim';
+import { kp, kneeAngleOf, kneeExtensionSpeed, torsoLength } from './kinematics';
+import { followThroughHold } from './followThrough';
+import { findPhase, segmentPhases, type ShotPhases } from './phases';
+import type { HandPreference } from './hand';
+import { DEFAULT_ANALYZE_CONFIG } from './config';
+import { bodyScaleOf, convertUnit, FEATURE_UNITS, type BodyScale, type CalibrationMode } from './units';
+import {
+  bestViewFor,
+  detectViewpoint,
+  VIEW_LABELS,
+  viewWeight,
+  type ViewDetection,
+  type ViewPreference,
+} from './viewpoint';
+
+// 姿态之外的辅助输入
+export type SequenceExtras = {
+  ball?: BallFrame[];
+  rim?: Rim | null;
+  // 投篮手，默认自动判断
+  hand?: HandPreference;
+  // 机位，默认自动判断
+  view?: ViewPreference;
+  // 厘米校准：rim 用上面的 rim，height 用球员身高
+  calibration?: { mode: CalibrationMode; playerHeightCm?: number };
+  // 关键点置信度门限和最长补帧时长，默认用 DEFAULT_ANALYZE_CONFIG
+  poseThreshold?: number;
+  maxGapMs?: number;
+};
+
+export type FeatureKey = keyof FeatureVector;
+
+export type ExtractedFeatures = {
+  features: FeatureVector;
+  // 没量出来的项，说明原因（未检测 / 模型无此点）
+  missing: Partial<Record<FeatureKey, string>>;
+  phases: ShotPhases | null;
+  flight: BallFlight | null;
+  outcome: ShotOutcome | null;
+  view: ViewDetection | null;
+  scale: BodyScale | null;
+  // 补帧后仍然长时间丢失的关键点，下标相对传进来的时序
+  gaps: KeypointGap[];
+  // 插值补上的点数
+  filled: number;
+};
+
+function midX(p: PoseResult, a: string, b: string): number {
+  const ka = kp(p, a);
+  const kb = kp(p, b);
+  if (!ka || !kb) return NaN;
+  return (ka.x + kb.x) / 2;
+}
+
+// 一段帧里某个 x 坐标的摆动幅度
+function xRange(seq: PoseResult[], from: number, to: number, pick: (p: PoseResult) => number): number {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = from; i <= to; i++) {
+    const x = pick(seq[i]);
+    if (Number.isNaN(x)) continue;
+    lo = Math.min(lo, x);
+    hi = Math.max(hi, x);
+  }
+  return hi >= lo ? hi - lo : NaN;
+}
+
+const finite = (v: number): number | undefined => (Number.isFinite(v) ? v : undefined);
+
+export function extractFeatures(
+  raw: PoseResult[],
+  coach: CoachConfig,
+  extras: SequenceExtras = {}
+): ExtractedFeatures {
+  const features: FeatureVector = {};
+  const missing: ExtractedFeatures['missing'] = {};
+  // 低置信度的点先屏蔽、短暂丢失的补上，后面所有计算都用处理过的时序
+  const { seq, gaps, filled } = fillKeypointGaps(raw, {
+    threshold: extras.poseThreshold ?? DEFAULT_ANALYZE_CONFIG.poseThreshold,
+    maxGapMs: extras.maxGapMs ?? DEFAULT_ANALYZE_CONFIG.maxGapMs,
+  });
+  const sp = segmentPhases(seq, {
+    minElbowDeg: coach.releaseDetect?.minElbowDeg,
+    hand: extras.hand,
+  });
+  if (!sp) {
+    return { features, missing, phases: null, flight: null, outcome: null, view: null, scale: null, gaps, filled };
+  }
+
+  const layout = seq[0]?.layout;
+  const side = sp.side;
+  const dip = seq[sp.dipIdx];
+  const rel = seq[sp.releaseIdx];
+  const torso = torsoLength(rel);
+  const follow = findPhase(sp, 'follow');
+  const followEnd = follow?.endIdx ?? sp.releaseIdx;
+
+  const put = (key: FeatureKey, v: number, joints: string[]) => {
+    const f = finite(v);
+    if (f === undefined) missing[key] = missingLabel(layout, joints);
+    else features[key] = f;
+  };
+
+  // 下肢
+  put('kneeDepth', kneeAngleOf(dip), ['left_knee', 'right_knee']);
+  const ext = kneeExtensionSpeed(seq, sp.dipIdx, sp.takeoffIdx);
+  put('extendSpeed', ext?.peak ?? NaN, ['left_knee', 'right_knee']);
+  if (ext) features.extendSpeedMean = ext.mean;
+
+  // 上肢：全部用出手那只手
+  const s = kp(rel, `${side}_shoulder`);
+  const e = kp(rel, `${side}_elbow`);
+  const w = kp(rel, `${side}_wrist`);
+  put('releaseAngle', s && e && w ? angle(s, e, w) : NaN, [
+    `${side}_shoulder`,
+    `${side}_elbow`,
+    `${side}_wrist`,
+  ]);
+
+  // 压腕：出手到随挥结束之间，肘-腕-食指夹角离 180 最远的时候
+  let flex = NaN;
+  for (let i = sp.releaseIdx; i <= followEnd; i++) {
+    const pe = kp(seq[i], `${side}_elbow`);
+    const pw = kp(seq[i], `${side}_wrist`);
+    const pf = kp(seq[i], `${side}_index`);
+    if (!pe || !pw || !pf) continue;
+    const v = 180 - angle(pe, pw, pf);
+    if (Number.isNaN(flex) || v > flex) flex = v;
+  }
+  put('wristFlex', flex, [`${side}_elbow`, `${side}_wrist`, `${side}_index`]);
+
+  put(
+    'followThrough',
+    followThroughHold(seq, sp.releaseIdx, side, {
+      minElbowDeg: coach.releaseDetect?.minElbowDeg,
+      windowSec: coach.scoring?.postReleaseSec,
+    }),
+    [`${side}_shoulder`, `${side}_elbow`, `${side}_wrist`]
+  );
+
+  // 肘部路径：上升段肘部横向漂移 / 躯干长度
+  const elbowX = (p: PoseResult) => kp(p, `${side}_elbow`)?.x ?? NaN;
+  put('elbowCurve', xRange(seq, sp.dipIdx, sp.releaseIdx, elbowX) / torso, [`${side}_elbow`]);
+
+  // 平衡：下蹲到随挥结束，髋中点横向摆动 / 躯干长度
+  const dipStart = findPhase(sp, 'dip')?.startIdx ?? 0;
+  const hipMid = (p: PoseResult) => midX(p, 'left_hip', 'right_hip');
+  put('stability', xRange(seq, dipStart, followEnd, hipMid) / torso, ['left_hip', 'right_hip']);
+
+  // 对齐：出手时髋、肩、手腕离脚中线的平均横向距离 / 躯干长度
+  const footX = midX(rel, 'left_ankle', 'right_ankle');
+  const xs = [midX(rel, 'left_hip', 'right_hip'), midX(rel, 'left_shoulder', 'right_shoulder'), w?.x ?? NaN];
+  const align = xs.reduce((acc, x) => acc + Math.abs(x - footX), 0) / xs.length / torso;
+  put('alignment', align, ['left_ankle', 'right_ankle', 'left_hip', 'right_hip', `${side}_wrist`]);
+
+  // 机位：正面拍时球偏在筐的左右，侧面拍时是长短
+  const view = detectViewpoint(seq, extras.view);
+
+  // 球
+  const ball = extras.ball ?? [];
+  const rim = extras.rim ?? null;
+  const flight = ball.length ? fitBallFlight(ball, rel.ts, torso, { rimY: rim?.y }) : null;
+  if (flight) {
+    features.launchAngle = finite(flight.launchAngle);
+    features.launchSpeed = finite(flight.launchSpeed);
+    features.apexHeight = finite(flight.apexHeight);
+    features.entryAngle = finite(flight.entryAngle);
+  }
+  const outcome =
+    rim && ball.length ? classifyShot(ball, rel.ts, rim, { view: view?.view === 'front' ? 'front' : 'side' }) : null;
+
+  // 距离类特征换成规则里写的单位；要厘米但没校准的不打分
+  const scale = bodyScaleOf(seq, rel, extras.calibration ? { ...extras.calibration, rim } : undefined);
+  for (const key of Object.keys(FEATURE_UNITS) as FeatureKey[]) {
+    const v = features[key];
+    const from = FEATURE_UNITS[key]!;
+    const to = findRule(coach, key)?.unit;
+    if (v === undefined || !to || to === from) continue;
+    const out = finite(convertUnit(v, from, to, scale));
+    if (out !== undefined) {
+      features[key] = out;
+    } else {
+      delete features[key];
+      missing[key] = to.startsWith('cm') ? '需要先校准（标篮筐或填身高）' : `没法换算成 ${to}`;
+    }
+  }
+
+  // 依赖的关键点在要看的那段里长时间丢失，量出来的数不可靠，不打分
+  // anyOf：两边取平均的（比如膝角），两边都丢了才算
+  const checkGaps = (key: FeatureKey, from: number, to: number, joints: string[], anyOf = false) => {
+    if (features[key] === undefined) return;
+    const hit = gapsIn(gaps, joints, from, to);
+    const lostJoints = Array.from(new Set(hit.map((g) => g.name)));
+    if (anyOf ? lostJoints.length < joints.length : !lostJoints.length) return;
+    delete features[key];
+    const secs = Math.max(...hit.map((g) => g.endTs - g.startTs)) / 1000;
+    missing[key] = `不可靠：${lostJoints.map(jointLabel).join('、')}丢失约 ${secs.toFixed(1)} 秒`;
+  };
+  const arm = [`${side}_shoulder`, `${side}_elbow`, `${side}_wrist`];
+  checkGaps('kneeDepth', dipStart, sp.releaseIdx, ['left_knee', 'right_knee'], true);
+  checkGaps('extendSpeed', sp.dipIdx, sp.takeoffIdx, ['left_knee', 'right_knee'], true);
+  checkGaps('releaseAngle', sp.releaseIdx, sp.releaseIdx, arm);
+  checkGaps('wristFlex', sp.releaseIdx, followEnd, [`${side}_elbow`, `${side}_wrist`, `${side}_index`]);
+  checkGaps('followThrough', sp.releaseIdx, followEnd, arm);
+  checkGaps('elbowCurve', sp.dipIdx, sp.releaseIdx, [`${side}_elbow`]);
+  checkGaps('stability', dipStart, followEnd, ['left_hip', 'right_hip']);
+  checkGaps('alignment', sp.releaseIdx, sp.releaseIdx, ['left_ankle', 'right_ankle', 'left_hip', 'right_hip', `${side}_wrist`]);
+
+  // 这个机位完全看不准的项不打分，告诉用户该换哪个角度拍
+  if (view) {
+    for (const key of Object.keys(features) as FeatureKey[]) {
+      if (viewWeight(key, view.view) > 0) continue;
+      delete features[key];
+      const best = bestViewFor(key);
+      missing[key] = `${VIEW_LABELS[view.view]}机位看不准${best ? `，需要${VIEW_LABELS[best]}拍` : ''}`;
+    }
+  }
+
+  return { features, missing, phases: sp, flight, outcome, view, scale, gaps, filled };
+}
@@ -0,0 +1,58 @@
+// lib/analyze/followThrough.ts
+// 随挥保持时间：出手之后，投篮手臂保持伸直、手腕保持下压并且在肩膀以上，一共撑了多久
+
+import type { PoseResult } from '../pose/poseEngine';
+import { angle } from '../angles';
+import { kp } from './kinematics';
+import type { ShootingHand } from './hand';
+
+export type FollowThroughOpts = {
+  // 肘角至少这么大才算手臂伸直
+  minElbowDeg?: number;
+  // 手腕下压角（180 - 肘-腕-食指夹角）至少这么大才算压腕
+  minWristFlexDeg?: number;
+  // 只看出手后这么长时间，对应 ScoringWindow.postReleaseSec
+  windowSec?: number;
+};
+
+// 这一帧是不是还在随挥姿势里
+function isHolding(p: PoseResult, side: ShootingHand, minElbow: number, minFlex: number): boolean {
+  const s = kp(p, `${side}_shoulder`);
+  const e = kp(p, `${side}_elbow`);
+  const w = kp(p, `${side}_wrist`);
+  if (!s || !e || !w) return false;
+  // 手腕要在肩膀以上（画面坐标 y 向下）
+  if (w.y >= s.y) return false;
+  if (!(angle(s, e, w) >= minElbow)) return false;
+  // COCO 17 点没有手指，没法判断压腕就只看手臂
+  const finger = kp(p, `${side}_index`);
+  if (!finger) return true;
+  const flex = 180 - angle(e, w, finger);
+  return flex >= minFlex;
+}
+
+// 返回秒数；出手帧本身就不满足条件时为 0
+export function followThroughHold(
+  seq: PoseResult[],
+  releaseIdx: number,
+  side: ShootingHand,
+  opts: FollowThroughOpts = {}
+): number {
+  if (releaseIdx < 0 || releaseIdx >= seq.length) return NaN;
+  const minElbow = opts.minElbowDeg ?? 150;
+  const minFlex = opts.minWristFlexDeg ?? 15;
+  const windowMs = (opts.windowSec ?? 0.45) * 1000;
+
+  const t0 = seq[releaseIdx].ts;
+  let lastTs = t0;
+  let held = false;
+  for (let i = releaseIdx; i < seq.length; i++) {
+    const p = seq[i];
+    if (p.ts - t0 > windowMs) break;
+    if (!isHolding(p, side, minElbow, minFlex)) break;
+    held = true;
+    lastTs = p.ts;
+  }
+  if (!held) return 0;
+  return Math.min(lastTs - t0, windowMs) / 1000;
+}
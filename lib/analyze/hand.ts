@@ -0,0 +1,64 @@
+// lib/analyze/hand.ts
+// 判断投篮手：出手前后哪只手腕举得最高、上升得最快，就是投篮手。
+// 左撇子也能自动识别；识别不准时可以在设置里手动指定。
+
+import type { PoseResult } from '../pose/poseEngine';
+import { derivative, kp, seriesOf, torsoLength } from './kinematics';
+
+export type ShootingHand = 'left' | 'right';
+export type HandPreference = 'auto' | ShootingHand;
+
+export const HAND_LABELS: Record<ShootingHand, string> = {
+  left: '左手',
+  right: '右手',
+};
+
+export type HandDetection = {
+  hand: ShootingHand;
+  // 0~1，两只手差得越多越确定
+  confidence: number;
+};
+
+// 手腕比同侧肩膀高多少（像素，向上为正）
+function wristLift(p: PoseResult, side: ShootingHand): number {
+  const w = kp(p, `${side}_wrist`);
+  const s = kp(p, `${side}_shoulder`);
+  if (!w || !s) return NaN;
+  return s.y - w.y;
+}
+
+function maxFinite(xs: number[]): number {
+  let m = NaN;
+  for (const x of xs) {
+    if (Number.isNaN(x)) continue;
+    if (Number.isNaN(m) || x > m) m = x;
+  }
+  return m;
+}
+
+// 只看出手前后这一段（不给 releaseIdx 就看整段）
+export function detectShootingHand(seq: PoseResult[], releaseIdx = -1, padFrames = 10): HandDetection {
+  const from = releaseIdx >= 0 ? Math.max(0, releaseIdx - padFrames * 2) : 0;
+  const to = releaseIdx >= 0 ? Math.min(seq.length - 1, releaseIdx + padFrames) : seq.length - 1;
+  const win = seq.slice(from, to + 1);
+  const ts = win.map((p) => p.ts);
+  const torso = maxFinite(win.map(torsoLength)) || 1;
+
+  const scoreOf = (side: ShootingHand) => {
+    const lift = seriesOf(win, (p) => wristLift(p, side));
+    const height = maxFinite(lift) / torso;
+    // 上升速度：躯干长度/秒
+    const speed = maxFinite(derivative(lift, ts)) / torso;
+    if (Number.isNaN(height)) return NaN;
+    return height + 0.1 * (Number.isNaN(speed) ? 0 : speed);
+  };
+
+  const l = scoreOf('left');
+  const r = scoreOf('right');
+  if (Number.isNaN(l) && Number.isNaN(r)) return { hand: 'right', confidence: 0 };
+  if (Number.isNaN(l)) return { hand: 'right', confidence: 1 };
+  if (Number.isNaN(r)) return { hand: 'left', confidence: 1 };
+  const hand: ShootingHand = l > r ? 'left' : 'right';
+  const spread = Math.abs(l - r) / (Math.abs(l) + Math.abs(r) || 1);
+  return { hand, confidence: Math.min(1, spread) };
+}
@@ -12,7 +12,7 @@ export type Angles = {
   shoulderR?: number;
 };
 
-function kp(p: PoseResult | null, name: string): PoseKeypoint | null {
+export function kp(p: PoseResult | null, name: string): PoseKeypoint | null {
   if (!p) return null;
   return p.keypoints.find((k) => k.name === name) ?? null;
 }
@@ -81,3 +81,149 @@ export function calcAngles(p: PoseResult | null): Angles {
 
   return out;
 }
+
+// 按关节命名的角度（度），导出、报告、动作对比都用这一套
+// calcAngles 的 shoulderL/R 其实是肩-肘-腕夹角，这里按肘角命名
+export type JointAngles = {
+  kneeL?: number;
+  kneeR?: number;
+  hipL?: number;
+  hipR?: number;
+  elbowL?: number;
+  elbowR?: number;
+};
+
+export type JointAngleKey = keyof JointAngles;
+
+export const JOINT_ANGLE_KEYS: JointAngleKey[] = ['kneeL', 'kneeR', 'hipL', 'hipR', 'elbowL', 'elbowR'];
+
+export const JOINT_ANGLE_LABELS: Record<JointAngleKey, string> = {
+  kneeL: '左膝',
+  kneeR: '右膝',
+  hipL: '左髋',
+  hipR: '右髋',
+  elbowL: '左肘',
+  elbowR: '右肘',
+};
+
+export function jointAngles(p: PoseResult | null): JointAngles {
+  const a = calcAngles(p);
+  return {
+    kneeL: a.kneeL,
+    kneeR: a.kneeR,
+    hipL: a.hipL,
+    hipR: a.hipR,
+    elbowL: a.shoulderL,
+    elbowR: a.shoulderR,
+  };
+}
+
+// 躯干长度：肩中点到髋中点（像素），当身体尺度用；缺点时 NaN
+export function torsoLength(p: PoseResult | null): number {
+  const ls = kp(p, 'left_shoulder');
+  const rs = kp(p, 'right_shoulder');
+  const lh = kp(p, 'left_hip');
+  const rh = kp(p, 'right_hip');
+  if (!ls || !rs || !lh || !rh) return NaN;
+  return Math.hypot((ls.x + rs.x) / 2 - (lh.x + rh.x) / 2, (ls.y + rs.y) / 2 - (lh.y + rh.y) / 2);
+}
+
+// 小腿长度（膝到踝），两条腿取平均；蹲下、起跳时都基本不变，比躯干更适合侧面机位
+export function shinLength(p: PoseResult | null): number {
+  const lens = (['left', 'right'] as const)
+    .map((side) => {
+      const k = kp(p, `${side}_knee`);
+      const a = kp(p, `${side}_ankle`);
+      return k && a ? Math.hypot(k.x - a.x, k.y - a.y) : NaN;
+    })
+    .filter((v) => !Number.isNaN(v));
+  return lens.length ? lens.reduce((s, v) => s + v, 0) / lens.length : NaN;
+}
+
+// 分位数，NaN 不参与；q=0.5 就是中位数
+export function quantile(xs: number[], q: number): number {
+  const s = xs.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  if (!s.length) return NaN;
+  const pos = (s.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return s[lo] + (s[hi] - s[lo]) * (pos - lo);
+}
+
+// 两条腿的膝角取平均，只识别到一条腿就用那一条，都没有就是 NaN
+export function kneeAngleOf(p: PoseResult | null): number {
+  const a = calcAngles(p);
+  const vals = [a.kneeL, a.kneeR].filter((v): v is number => typeof v === 'number');
+  if (!vals.length) return NaN;
+  return vals.reduce((s, v) => s + v, 0) / vals.length;
+}
+
+// 时序版：每帧取一个量，缺点的帧给 NaN，下标和 seq 一一对应
+export function seriesOf(seq: PoseResult[], pick: (p: PoseResult) => number): number[] {
+  return seq.map((p) => (p ? pick(p) : NaN));
+}
+
+// 简单滑动平均去抖，NaN 不参与
+export function movingAverage(xs: number[], radius = 1): number[] {
+  return xs.map((_, i) => {
+    let sum = 0;
+    let n = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(xs.length - 1, i + radius); j++) {
+      if (Number.isNaN(xs[j])) continue;
+      sum += xs[j];
+      n++;
+    }
+    return n ? sum / n : NaN;
+  });
+}
+
+// 对不等间隔的时间序列求导（单位：每秒）
+// 每个点取前后 radius 帧做最小二乘直线，斜率当导数，比相邻两帧直接相减抗抖得多
+export function derivative(values: number[], tsMs: number[], radius = 2): number[] {
+  return values.map((_, i) => {
+    const lo = Math.max(0, i - radius);
+    const hi = Math.min(values.length - 1, i + radius);
+    let n = 0;
+    let st = 0;
+    let sv = 0;
+    for (let j = lo; j <= hi; j++) {
+      if (Number.isNaN(values[j])) continue;
+      st += tsMs[j] / 1000;
+      sv += values[j];
+      n++;
+    }
+    if (n < 2) return NaN;
+    const mt = st / n;
+    const mv = sv / n;
+    let num = 0;
+    let den = 0;
+    for (let j = lo; j <= hi; j++) {
+      if (Number.isNaN(values[j])) continue;
+      const dt = tsMs[j] / 1000 - mt;
+      num += dt * (values[j] - mv);
+      den += dt * dt;
+    }
+    return den > 0 ? num / den : NaN;
+  });
+}
+
+export type KneeExtSpeed = {
+  peak: number; // 度/秒
+  mean: number; // 度/秒
+};
+
+// 下蹲最低点到起跳之间的伸膝角速度
+export function kneeExtensionSpeed(seq: PoseResult[], fromIdx: number, toIdx: number): KneeExtSpeed | null {
+  if (fromIdx < 0 || toIdx <= fromIdx || toIdx >= seq.length) return null;
+  const knee = seriesOf(seq, kneeAngleOf);
+  const vel = derivative(
+    knee,
+    seq.map((p) => p.ts)
+  );
+  const win = vel.slice(fromIdx, toIdx + 1).filter((v) => !Number.isNaN(v));
+  if (win.length < 2) return null;
+  return {
+    peak: Math.max(...win),
+    mean: win.reduce((s, v) => s + v, 0) / win.length,
+  };
+}
@@ -0,0 +1,188 @@
+// lib/analyze/phases.ts
+// 把整段姿态时序切成投篮的几个阶段：
+// 准备(setup) → 下蹲(dip) → 上升(rise) → 出手(release) → 随挥(follow) → 落地(landing)
+// 每个指标再去它该看的那一段取值，比如膝角看 dip 最低点，肘角看 release 那一帧。
+
+import type { PoseResult } from '../pose/poseEngine';
+import { kp, kneeAngleOf, movingAverage, seriesOf } from './kinematics';
+import { detectRelease } from './release';
+import { detectShootingHand, type HandPreference, type ShootingHand } from './hand';
+
+export type ShotPhaseName = 'setup' | 'dip' | 'rise' | 'release' | 'follow' | 'landing';
+
+export type ShotPhase = {
+  name: ShotPhaseName;
+  startIdx: number;
+  endIdx: number;
+  startTs: number; // ms
+  endTs: number; // ms
+};
+
+export type ShotPhases = {
+  phases: ShotPhase[];
+  // 几个关键帧的下标，方便直接取帧
+  dipIdx: number;
+  // 脚离地的那一帧；原地投篮不离地就等于 releaseIdx
+  takeoffIdx: number;
+  releaseIdx: number;
+  // 投篮手：手动指定的，或者按整段动作自动判断的
+  side: ShootingHand;
+  sideSource: 'auto' | 'manual';
+  sideConfidence: number;
+};
+
+export type PhaseDetectOpts = {
+  minElbowDeg?: number;
+  // 膝角比站立时小这么多度，就算开始下蹲
+  dipStartDeg?: number;
+  // 落地判定：脚踝回到起跳前高度的容差（像素）
+  landingTolPx?: number;
+  // 投篮手，默认自动判断
+  hand?: HandPreference;
+};
+
+export const PHASE_LABELS: Record<ShotPhaseName, string> = {
+  setup: '准备',
+  dip: '下蹲',
+  rise: '上升',
+  release: '出手',
+  follow: '随挥',
+  landing: '落地',
+};
+
+function argMin(xs: number[], from: number, to: number): number {
+  let best = -1;
+  for (let i = from; i <= to; i++) {
+    if (Number.isNaN(xs[i])) continue;
+    if (best < 0 || xs[i] < xs[best]) best = i;
+  }
+  return best;
+}
+
+function maxOf(xs: number[], from: number, to: number): number {
+  let m = NaN;
+  for (let i = from; i <= to; i++) {
+    if (Number.isNaN(xs[i])) continue;
+    if (Number.isNaN(m) || xs[i] > m) m = xs[i];
+  }
+  return m;
+}
+
+function ankleY(p: PoseResult): number {
+  const ys = [kp(p, 'left_ankle'), kp(p, 'right_ankle')]
+    .filter((k): k is NonNullable<typeof k> => !!k)
+    .map((k) => k.y);
+  if (!ys.length) return NaN;
+  return ys.reduce((s, v) => s + v, 0) / ys.length;
+}
+
+// 出手后手腕掉到肩膀以下，随挥就算结束
+function followEndIdx(seq: PoseResult[], releaseIdx: number, side: ShootingHand): number {
+  for (let i = releaseIdx + 1; i < seq.length; i++) {
+    const w = kp(seq[i], `${side}_wrist`);
+    const s = kp(seq[i], `${side}_shoulder`);
+    if (!w || !s) continue;
+    if (w.y > s.y) return i;
+  }
+  return seq.length - 1;
+}
+
+// 下蹲之后脚踝第一次明显抬高就是起跳
+function takeoffIdx(ankles: number[], dipIdx: number, releaseIdx: number, tol: number): number {
+  const base = ankles[dipIdx];
+  if (Number.isNaN(base)) return releaseIdx;
+  for (let i = dipIdx + 1; i <= releaseIdx; i++) {
+    if (!Number.isNaN(ankles[i]) && ankles[i] < base - tol) return i;
+  }
+  return releaseIdx;
+}
+
+// 出手后先离地（脚踝变高），再回到原来高度就是落地
+function landingIdx(seq: PoseResult[], ankles: number[], dipIdx: number, releaseIdx: number, tol: number): number {
+  const base = ankles[dipIdx];
+  if (Number.isNaN(base)) return -1;
+  let airborne = false;
+  for (let i = releaseIdx; i < seq.length; i++) {
+    const y = ankles[i];
+    if (Number.isNaN(y)) continue;
+    if (!airborne && y < base - tol) airborne = true;
+    else if (airborne && y >= base - tol) return i;
+  }
+  return -1;
+}
+
+export function segmentPhases(seq: PoseResult[], opts: PhaseDetectOpts = {}): ShotPhases | null {
+  if (seq.length < 3) return null;
+  const dipStartDeg = opts.dipStartDeg ?? 8;
+  const landingTol = opts.landingTolPx ?? 6;
+
+  const { index: releaseIdx } = detectRelease(seq, { minElbowDeg: opts.minElbowDeg });
+  if (releaseIdx < 0) return null;
+
+  const knee = movingAverage(seriesOf(seq, kneeAngleOf), 1);
+  const ankles = seriesOf(seq, ankleY);
+  const last = seq.length - 1;
+
+  // 1) 出手前膝角最小的一帧就是下蹲最低点
+  let dipIdx = argMin(knee, 0, releaseIdx);
+  if (dipIdx < 0) dipIdx = releaseIdx;
+
+  // 2) 往前找开始下蹲的时刻：膝角还接近站立角的最后一帧
+  const standing = maxOf(knee, 0, dipIdx);
+  let setupEnd = 0;
+  for (let i = dipIdx; i >= 0; i--) {
+    if (!Number.isNaN(knee[i]) && knee[i] >= standing - dipStartDeg) {
+      setupEnd = i;
+      break;
+    }
+  }
+
+  // 3) 出手之后
+  const manual = opts.hand && opts.hand !== 'auto' ? opts.hand : null;
+  const detected = manual ? null : detectShootingHand(seq, releaseIdx);
+  const side = manual ?? detected!.hand;
+  const followEnd = followEndIdx(seq, releaseIdx, side);
+  const land = landingIdx(seq, ankles, dipIdx, releaseIdx, landingTol);
+  const landStart = land >= 0 ? land : followEnd;
+
+  const mk = (name: ShotPhaseName, a: number, b: number): ShotPhase => ({
+    name,
+    startIdx: a,
+    endIdx: b,
+    startTs: seq[a].ts,
+    endTs: seq[b].ts,
+  });
+
+  // 随挥和落地在真实动作里会有重叠，这里不强行拆开
+  return {
+    phases: [
+      mk('setup', 0, setupEnd),
+      mk('dip', setupEnd, dipIdx),
+      mk('rise', dipIdx, releaseIdx),
+      mk('release', releaseIdx, releaseIdx),
+      mk('follow', releaseIdx, followEnd),
+      mk('landing', landStart, last),
+    ],
+    dipIdx,
+    takeoffIdx: takeoffIdx(ankles, dipIdx, releaseIdx, landingTol),
+    releaseIdx,
+    side,
+    sideSource: manual ? 'manual' : 'auto',
+    sideConfidence: manual ? 1 : detected!.confidence,
+  };
+}
+
+export function findPhase(sp: ShotPhases | null, name: ShotPhaseName): ShotPhase | null {
+  return sp?.phases.find((p) => p.name === name) ?? null;
+}
+
+// 某一帧属于哪个阶段：出手帧同时落在 release 和 follow 里，算 release；其余边界帧算后一个阶段
+export function phaseOf(phases: ShotPhase[], idx: number): ShotPhaseName | null {
+  let hit: ShotPhaseName | null = null;
+  for (const ph of phases) {
+    if (idx < ph.startIdx || idx > ph.endIdx) continue;
+    if (ph.name === 'release') return 'release';
+    hit = ph.name;
+  }
+  return hit;
+}
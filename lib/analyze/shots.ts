@@ -0,0 +1,212 @@
+// lib/analyze/shots.ts
+// 长视频（一组练习几分钟）里有很多次投篮：按“下蹲 → 上升 → 出手”的循环把时序切成一次一次，
+// 每次单独走 analyzeSequence 打分，再汇总整组的平均 / 最好 / 最差。
+// 只找到一次（或一次都找不到）时就按整段当一次投篮，跟以前的单次分析完全一样。
+
+import type { PoseResult } from '../pose/poseEngine';
+import { DEFAULT_CONFIG, type CoachConfig } from '../../config/coach';
+import { kp, kneeAngleOf, movingAverage, seriesOf, torsoLength } from './kinematics';
+import { analyzeSequence, type AnalysisResult, type SequenceExtras } from './scoring';
+import type { FeatureKey } from './features';
+
+export type ShotSplitOpts = {
+  // 手腕高过肩膀这么多（躯干长度）才算一次举手出手
+  raiseTorso?: number;
+  // 手腕回落到这个高度以下，这次举手才算结束（滞回，防止抖动切出两次）
+  lowerTorso?: number;
+  // 出手前膝角至少比站立时小这么多度，才算真的有下蹲
+  dipDeg?: number;
+  // 两次出手至少间隔这么久
+  minGapSec?: number;
+};
+
+export type ShotRange = {
+  startIdx: number;
+  endIdx: number;
+  startTs: number; // ms
+  endTs: number; // ms
+  // 这一次的出手峰值帧（整段下标）
+  peakIdx: number;
+};
+
+export type ShotAnalysis = ShotRange & {
+  index: number;
+  result: AnalysisResult;
+};
+
+export type MetricStat = {
+  mean: number;
+  best: number;
+  worst: number;
+  // 第几次投篮（从 0 开始）
+  bestShot: number;
+  worstShot: number;
+  count: number;
+};
+
+export type SessionAggregate = {
+  total: MetricStat;
+  buckets: Record<string, MetricStat>;
+  // 按每项的得分排最好最差，数值是那一次的原始测量值
+  features: Partial<Record<FeatureKey, MetricStat>>;
+};
+
+export type ShotSession = {
+  shots: ShotAnalysis[];
+  // 不止一次投篮时才有
+  aggregate: SessionAggregate | null;
+};
+
+// 两只手腕里高的那只比同侧肩膀高多少（躯干长度）
+function wristLift(p: PoseResult): number {
+  const torso = torsoLength(p);
+  if (!Number.isFinite(torso) || torso <= 0) return NaN;
+  let best = NaN;
+  for (const side of ['left', 'right']) {
+    const w = kp(p, `${side}_wrist`);
+    const s = kp(p, `${side}_shoulder`);
+    if (!w || !s) continue;
+    const v = (s.y - w.y) / torso;
+    if (Number.isNaN(best) || v > best) best = v;
+  }
+  return best;
+}
+
+function argBy(xs: number[], from: number, to: number, better: (a: number, b: number) => boolean): number {
+  let best = -1;
+  for (let i = from; i <= to; i++) {
+    if (Number.isNaN(xs[i])) continue;
+    if (best < 0 || better(xs[i], xs[best])) best = i;
+  }
+  return best;
+}
+
+// 切出每次投篮的帧范围；找不到两次以上就返回整段一次
+export function splitShots(seq: PoseResult[], opts: ShotSplitOpts = {}): ShotRange[] {
+  if (!seq.length) return [];
+  const raise = opts.raiseTorso ?? 0.5;
+  const lower = opts.lowerTorso ?? 0.1;
+  const dipDeg = opts.dipDeg ?? 12;
+  const minGapMs = (opts.minGapSec ?? 1.0) * 1000;
+  const last = seq.length - 1;
+  const whole: ShotRange[] = [
+    { startIdx: 0, endIdx: last, startTs: seq[0].ts, endTs: seq[last].ts, peakIdx: -1 },
+  ];
+
+  const lift = movingAverage(seriesOf(seq, wristLift), 2);
+  const knee = movingAverage(seriesOf(seq, kneeAngleOf), 1);
+
+  // 1) 找每一段“举过头”的区间，取区间里最高的一帧当出手峰值
+  const peaks: number[] = [];
+  let inRaise = false;
+  let from = 0;
+  for (let i = 0; i <= last + 1; i++) {
+    const v = i <= last ? lift[i] : -Infinity;
+    if (Number.isNaN(v)) continue;
+    if (!inRaise && v >= raise) {
+      inRaise = true;
+      from = i;
+    } else if (inRaise && v < lower) {
+      inRaise = false;
+      const peak = argBy(lift, from, Math.min(i, last), (a, b) => a > b);
+      if (peak < 0) continue;
+      // 离上一次太近就当成同一次（比如投完手没完全放下又抬了一下）
+      const prev = peaks[peaks.length - 1];
+      if (prev !== undefined && seq[peak].ts - seq[prev].ts < minGapMs) {
+        if (lift[peak] > lift[prev]) peaks[peaks.length - 1] = peak;
+      } else {
+        peaks.push(peak);
+      }
+    }
+  }
+
+  // 2) 每次出手前要有下蹲：从上一次出手（或开头）到这次出手之间膝角明显变小
+  //    整段都看不到膝盖时只能靠手臂判断
+  const hasKnee = knee.some((v) => !Number.isNaN(v));
+  const cycles = peaks.filter((peak, k) => {
+    if (!hasKnee) return true;
+    const a = k > 0 ? peaks[k - 1] : 0;
+    const lo = argBy(knee, a, peak, (x, y) => x < y);
+    const hi = argBy(knee, a, lo < 0 ? peak : lo, (x, y) => x > y);
+    if (lo < 0 || hi < 0) return false;
+    return knee[hi] - knee[lo] >= dipDeg;
+  });
+  if (cycles.length < 2) return whole;
+
+  // 3) 相邻两次出手之间手放得最低的一帧作为分界
+  const bounds: number[] = [];
+  for (let k = 0; k < cycles.length - 1; k++) {
+    const cut = argBy(lift, cycles[k] + 1, cycles[k + 1] - 1, (a, b) => a < b);
+    bounds.push(cut >= 0 ? cut : Math.floor((cycles[k] + cycles[k + 1]) / 2));
+  }
+
+  return cycles.map((peakIdx, k) => {
+    const startIdx = k === 0 ? 0 : bounds[k - 1] + 1;
+    const endIdx = k === cycles.length - 1 ? last : bounds[k];
+    return { startIdx, endIdx, startTs: seq[startIdx].ts, endTs: seq[endIdx].ts, peakIdx };
+  });
+}
+
+function statOf(values: { v: number; rank: number; shot: number }[]): MetricStat | null {
+  if (!values.length) return null;
+  let best = values[0];
+  let worst = values[0];
+  for (const x of values) {
+    if (x.rank > best.rank) best = x;
+    if (x.rank < worst.rank) worst = x;
+  }
+  return {
+    mean: values.reduce((s, x) => s + x.v, 0) / values.length,
+    best: best.v,
+    worst: worst.v,
+    bestShot: best.shot,
+    worstShot: worst.shot,
+    count: values.length,
+  };
+}
+
+export function aggregateShots(shots: ShotAnalysis[]): SessionAggregate {
+  const total = statOf(shots.map((s, i) => ({ v: s.result.total, rank: s.result.total, shot: i })))!;
+
+  const bucketVals: Record<string, { v: number; rank: number; shot: number }[]> = {};
+  const featureVals: Partial<Record<FeatureKey, { v: number; rank: number; shot: number }[]>> = {};
+  shots.forEach((s, i) => {
+    for (const b of s.result.buckets) {
+      // 整个 bucket 没量出来（比如这一次没跟到球）不算进统计
+      if (!b.measured) continue;
+      (bucketVals[b.name] ??= []).push({ v: b.score, rank: b.score, shot: i });
+      for (const it of b.items) {
+        if (!it.measured || it.value === undefined) continue;
+        (featureVals[it.key as FeatureKey] ??= []).push({ v: it.value, rank: it.score, shot: i });
+      }
+    }
+  });
+
+  const buckets: Record<string, MetricStat> = {};
+  for (const [name, vals] of Object.entries(bucketVals)) buckets[name] = statOf(vals)!;
+  const features: SessionAggregate['features'] = {};
+  for (const [key, vals] of Object.entries(featureVals)) {
+    const st = statOf(vals!);
+    if (st) features[key as FeatureKey] = st;
+  }
+  return { total, buckets, features };
+}
+
+export function analyzeShots(
+  seq: PoseResult[],
+  coach: CoachConfig = DEFAULT_CONFIG,
+  extras: SequenceExtras = {},
+  opts: ShotSplitOpts = {}
+): ShotSession {
+  const ranges = splitShots(seq, opts);
+  const shots = ranges.map((r, index) => ({
+    ...r,
+    index,
+    result: analyzeSequence(seq.slice(r.startIdx, r.endIdx + 1), coach, {
+      ...extras,
+      // 球的轨迹也按这次的时间段截出来
+      ball: extras.ball?.filter((b) => b.ts >= r.startTs && b.ts <= r.endTs),
+    }),
+  }));
+  return { shots, aggregate: shots.length > 1 ? aggregateShots(shots) : null };
+}
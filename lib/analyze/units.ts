@@ -0,0 +1,145 @@
+// lib/analyze/units.ts
+// 距离类指标的单位换算。
+// 特征先按身体比例量（躯干长度），再换成打分规则里写的单位：躯干、小腿，或者校准过的厘米。
+// 这样分数和人离镜头多远无关；校准只是让教练能看到“偏了 8 厘米”这种直观的数。
+
+import type { PoseResult } from '../pose/poseEngine';
+import type { ScoreUnit } from '../../config/coach';
+import type { Rim } from '../ball/rim';
+import type { FeatureKey } from './features';
+import { kp, quantile, shinLength, torsoLength } from './kinematics';
+
+// 篮筐上沿离地 3.05 米；脚踝关键点离地面大约 7 厘米
+export const RIM_HEIGHT_CM = 305;
+const ANKLE_HEIGHT_CM = 7;
+// 站直时鼻子到脚踝大约是身高的 0.87
+const NOSE_TO_ANKLE_OF_HEIGHT = 0.87;
+
+export type CalibrationMode = 'none' | 'rim' | 'height';
+
+export type CalibrationInput = {
+  mode: CalibrationMode;
+  // mode 为 height 时用
+  playerHeightCm?: number;
+  // mode 为 rim 时用
+  rim?: Rim | null;
+};
+
+export type BodyScale = {
+  torsoPx: number;
+  shinPx: number;
+  // 校准过才有
+  cmPerPx: number | null;
+  calibratedBy: 'rim' | 'height' | null;
+};
+
+// 各特征量出来时的单位；角度、时间类不用换
+export const FEATURE_UNITS: Partial<Record<FeatureKey, ScoreUnit>> = {
+  elbowCurve: 'torso',
+  stability: 'torso',
+  alignment: 'torso',
+  launchSpeed: 'torso/s',
+  apexHeight: 'torso',
+};
+
+// 换算厘米用的大致身材比例（成年人躯干约 50 cm、小腿约 42 cm），只在配置面板里换单位时估算目标值用
+export const NOMINAL_CM: Partial<Record<ScoreUnit, number>> = {
+  torso: 50,
+  pct: 50,
+  shin: 42,
+  cm: 1,
+};
+
+const isSpeed = (u: ScoreUnit) => u.endsWith('/s');
+const lengthOf = (u: ScoreUnit) => (isSpeed(u) ? (u.slice(0, -2) as ScoreUnit) : u);
+
+// 1 个单位是多少像素；不是距离类或者没法换（没校准的 cm）就是 NaN
+function pxPerUnit(unit: ScoreUnit, scale: BodyScale): number {
+  switch (lengthOf(unit)) {
+    case 'px':
+      return 1;
+    case 'torso':
+    case 'pct':
+      return scale.torsoPx;
+    case 'shin':
+      return scale.shinPx;
+    case 'cm':
+      return scale.cmPerPx ? 1 / scale.cmPerPx : NaN;
+    default:
+      return NaN;
+  }
+}
+
+export function isDistanceUnit(unit: ScoreUnit | undefined): boolean {
+  return !!unit && ['px', 'torso', 'pct', 'shin', 'cm'].includes(lengthOf(unit));
+}
+
+// 同类单位之间换算（距离换距离、速度换速度），换不了返回 NaN
+export function convertUnit(value: number, from: ScoreUnit, to: ScoreUnit, scale: BodyScale): number {
+  if (from === to) return value;
+  if (isSpeed(from) !== isSpeed(to)) return NaN;
+  return (value * pxPerUnit(from, scale)) / pxPerUnit(to, scale);
+}
+
+// 不带缩放信息时按大致身材比例换，配置面板改单位时用
+export function convertNominal(value: number, from: ScoreUnit, to: ScoreUnit): number {
+  if (from === to) return value;
+  if (isSpeed(from) !== isSpeed(to)) return NaN;
+  const a = NOMINAL_CM[lengthOf(from)];
+  const b = NOMINAL_CM[lengthOf(to)];
+  return a && b ? (value * a) / b : NaN;
+}
+
+// 校准过时，把距离类的值换成厘米（或厘米/秒）展示
+export function toCentimetres(value: number, unit: ScoreUnit | undefined, scale: BodyScale | undefined): number | null {
+  if (!unit || !scale?.cmPerPx || !isDistanceUnit(unit) || lengthOf(unit) === 'cm') return null;
+  const v = convertUnit(value, unit, isSpeed(unit) ? 'cm/s' : 'cm', scale);
+  return Number.isFinite(v) ? v : null;
+}
+
+function ankleY(p: PoseResult): number {
+  const ys = ['left_ankle', 'right_ankle']
+    .map((n) => kp(p, n)?.y)
+    .filter((y): y is number => y !== undefined);
+  return ys.length ? ys.reduce((s, v) => s + v, 0) / ys.length : NaN;
+}
+
+// 篮筐标定：地面到筐的像素高度对应 3.05 米。
+// 假设人和篮筐离镜头差不多远、镜头基本水平，45° 以内误差可以接受
+function cmPerPxFromRim(seq: PoseResult[], rim: Rim): number {
+  // 大部分帧脚在地上，取中位数避开起跳
+  const ground = quantile(seq.map(ankleY), 0.5);
+  const px = ground - rim.y;
+  return px > 0 ? (RIM_HEIGHT_CM - ANKLE_HEIGHT_CM) / px : NaN;
+}
+
+// 身高标定：站直时鼻子到脚踝的像素长度；下蹲时变短，取接近最大的值
+function cmPerPxFromHeight(seq: PoseResult[], heightCm: number): number {
+  const px = quantile(
+    seq.map((p) => {
+      const n = kp(p, 'nose');
+      return n ? ankleY(p) - n.y : NaN;
+    }),
+    0.9
+  );
+  return px > 0 && heightCm > 0 ? (heightCm * NOSE_TO_ANKLE_OF_HEIGHT) / px : NaN;
+}
+
+export function bodyScaleOf(seq: PoseResult[], ref: PoseResult, calibration?: CalibrationInput): BodyScale {
+  let cmPerPx = NaN;
+  let calibratedBy: BodyScale['calibratedBy'] = null;
+  if (calibration?.mode === 'rim' && calibration.rim) {
+    cmPerPx = cmPerPxFromRim(seq, calibration.rim);
+    calibratedBy = 'rim';
+  } else if (calibration?.mode === 'height' && calibration.playerHeightCm) {
+    cmPerPx = cmPerPxFromHeight(seq, calibration.playerHeightCm);
+    calibratedBy = 'height';
+  }
+  const ok = Number.isFinite(cmPerPx) && cmPerPx > 0;
+  return {
+    torsoPx: torsoLength(ref),
+    shinPx: quantile(seq.map(shinLength), 0.5),
+    cmPerPx: ok ? cmPerPx : null,
+    calibratedBy: ok ? calibratedBy : null,
+  };
+}
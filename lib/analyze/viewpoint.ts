@@ -0,0 +1,92 @@
+// lib/analyze/viewpoint.ts
+// 判断机位：侧面 / 正面 / 45°。
+// 正对镜头时两肩、两髋在画面上拉得很开；侧对镜头时左右两个点几乎叠在一起。
+// 用“肩宽、髋宽 / 躯干长度”这个比例判断，和人离镜头多远无关。
+// 不同机位能看准的指标不一样：膝角、出手角要侧面看，肘部外展、对齐要正面看。
+
+import type { PoseResult } from '../pose/poseEngine';
+import type { FeatureKey } from './features';
+import { kp, quantile, torsoLength } from './kinematics';
+
+export type CameraView = 'side' | 'front' | 'oblique';
+export type ViewPreference = 'auto' | CameraView;
+
+export const VIEW_LABELS: Record<CameraView, string> = {
+  side: '侧面',
+  front: '正面',
+  oblique: '45°',
+};
+
+export type ViewDetection = {
+  view: CameraView;
+  // (肩宽 + 髋宽) / 2 / 躯干长度，各帧取中位数
+  widthRatio: number;
+  // 0~1，离分界线越远越确定
+  confidence: number;
+  source: 'auto' | 'manual';
+};
+
+// 正面大约 0.7（肩宽约为躯干长度的 0.8，髋宽约 0.6），正侧面接近 0
+const SIDE_MAX = 0.25;
+const FRONT_MIN = 0.5;
+// 离分界线这么远就算完全确定
+const CONFIDENT_MARGIN = 0.15;
+
+function widthRatio(p: PoseResult): number {
+  const torso = torsoLength(p);
+  const ls = kp(p, 'left_shoulder');
+  const rs = kp(p, 'right_shoulder');
+  const lh = kp(p, 'left_hip');
+  const rh = kp(p, 'right_hip');
+  if (!ls || !rs || !lh || !rh || !(torso > 0)) return NaN;
+  return (Math.abs(ls.x - rs.x) + Math.abs(lh.x - rh.x)) / 2 / torso;
+}
+
+// 转身投篮时中间几帧会变，取中位数看主要机位
+export function detectViewpoint(seq: PoseResult[], pref: ViewPreference = 'auto'): ViewDetection | null {
+  const ratio = quantile(seq.map(widthRatio), 0.5);
+  if (pref !== 'auto') return { view: pref, widthRatio: ratio, confidence: 1, source: 'manual' };
+  if (Number.isNaN(ratio)) return null;
+  const view: CameraView = ratio < SIDE_MAX ? 'side' : ratio > FRONT_MIN ? 'front' : 'oblique';
+  const margin =
+    view === 'side' ? SIDE_MAX - ratio : view === 'front' ? ratio - FRONT_MIN : Math.min(ratio - SIDE_MAX, FRONT_MIN - ratio);
+  return {
+    view,
+    widthRatio: ratio,
+    confidence: Math.max(0, Math.min(1, margin / CONFIDENT_MARGIN)),
+    source: 'auto',
+  };
+}
+
+// 每个指标在各机位下的可信程度，直接乘到 item 权重上；0 就是这个机位不打这一项
+// 没列出来的指标不受机位影响
+export const VIEW_WEIGHTS: Partial<Record<FeatureKey, Record<CameraView, number>>> = {
+  // 膝角、伸膝：正面看膝盖是往镜头方向弯的，角度严重失真
+  kneeDepth: { side: 1, oblique: 0.6, front: 0 },
+  extendSpeed: { side: 1, oblique: 0.6, front: 0.3 },
+  // 出手臂在投篮平面里伸展，侧面最准
+  releaseAngle: { side: 1, oblique: 0.7, front: 0.3 },
+  wristFlex: { side: 1, oblique: 0.5, front: 0 },
+  followThrough: { side: 1, oblique: 0.8, front: 0.5 },
+  // 横向漂移/偏离：侧面看到的是前后方向，没有意义
+  elbowCurve: { side: 0, oblique: 0.5, front: 1 },
+  stability: { side: 0.5, oblique: 0.8, front: 1 },
+  alignment: { side: 0, oblique: 0.5, front: 1 },
+  // 球的弧线要侧面看，正面只能看到球在上下动
+  launchAngle: { side: 1, oblique: 0.6, front: 0 },
+  launchSpeed: { side: 1, oblique: 0.6, front: 0 },
+  apexHeight: { side: 1, oblique: 0.8, front: 0.3 },
+  entryAngle: { side: 1, oblique: 0.6, front: 0 },
+};
+
+export function viewWeight(key: string, view: CameraView | undefined): number {
+  if (!view) return 1;
+  return VIEW_WEIGHTS[key as FeatureKey]?.[view] ?? 1;
+}
+
+// 这个指标最适合哪个机位拍
+export function bestViewFor(key: string): CameraView | null {
+  const w = VIEW_WEIGHTS[key as FeatureKey];
+  if (!w) return null;
+  return (Object.keys(w) as CameraView[]).reduce((a, b) => (w[b] > w[a] ? b : a));
+}
@@ -1,4 +1,235 @@
-export function detectBall(){
-  // placeholder for future work
-  return null
+// lib/ball/ballTracker.ts
+// 篮球检测 + 跟踪，纯 CPU，不用下载额外模型：
+// 1. 颜色：篮球是橙色，HSV 里挑色相/饱和度合适的像素
+// 2. 运动：和上一帧做差，动的像素加分（地板、球衣也可能是橙色）
+// 3. 形状：连通块越接近圆、越接近正方形包围盒分越高
+// 4. 跟踪：匀速模型预测位置，手挡住球的几帧靠预测顶过去
+
+export type BallCandidate = {
+  x: number; // 像素，和传进来的图同一坐标系
+  y: number;
+  r: number;
+  confidence: number; // 0~1
+};
+
+export type BallFrame = BallCandidate & {
+  ts: number; // ms，和 PoseResult.ts 对齐
+  // true 表示这一帧没检测到，是预测出来的
+  predicted: boolean;
+};
+
+export type BallDetectOpts = {
+  // 每隔几个像素采一次，越大越快
+  step?: number;
+  hueMin?: number; // 度
+  hueMax?: number;
+  satMin?: number; // 0~1
+  valMin?: number; // 0~1
+  // 帧差阈值（0~255）
+  motionThresh?: number;
+  minRadius?: number; // 像素
+  maxRadius?: number;
+};
+
+const DEFAULT_DETECT: Required<BallDetectOpts> = {
+  step: 2,
+  hueMin: 5,
+  hueMax: 32,
+  satMin: 0.4,
+  valMin: 0.25,
+  motionThresh: 18,
+  minRadius: 3,
+  maxRadius: 80,
+};
+
+function isOrange(r: number, g: number, b: number, o: Required<BallDetectOpts>): boolean {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const v = max / 255;
+  if (v < o.valMin) return false;
+  const d = max - min;
+  const s = max === 0 ? 0 : d / max;
+  if (s < o.satMin) return false;
+  if (max !== r || d === 0) return false; // 橙色一定是红通道最大
+  let h = (60 * (g - b)) / d;
+  if (h < 0) h += 360;
+  return h >= o.hueMin && h <= o.hueMax;
+}
+
+// 单帧检测：返回最像球的那个连通块，找不到就是 null
+export function detectBall(
+  img: ImageData,
+  prev: ImageData | null = null,
+  opts: BallDetectOpts = {}
+): BallCandidate | null {
+  const o = { ...DEFAULT_DETECT, ...opts };
+  const step = Math.max(1, Math.round(o.step));
+  const gw = Math.floor(img.width / step);
+  const gh = Math.floor(img.height / step);
+  if (!gw || !gh) return null;
+
+  // 网格上的颜色掩码 + 运动掩码
+  const mask = new Uint8Array(gw * gh);
+  const moving = new Uint8Array(gw * gh);
+  const data = img.data;
+  const pdata = prev && prev.width === img.width && prev.height === img.height ? prev.data : null;
+  for (let gy = 0; gy < gh; gy++) {
+    for (let gx = 0; gx < gw; gx++) {
+      const i = ((gy * step) * img.width + gx * step) * 4;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      if (!isOrange(r, g, b, o)) continue;
+      mask[gy * gw + gx] = 1;
+      if (pdata) {
+        const diff =
+          Math.abs(r - pdata[i]) + Math.abs(g - pdata[i + 1]) + Math.abs(b - pdata[i + 2]);
+        if (diff / 3 > o.motionThresh) moving[gy * gw + gx] = 1;
+      }
+    }
+  }
+
+  // 连通块（4 邻域），顺手打分
+  const seen = new Uint8Array(gw * gh);
+  const stack: number[] = [];
+  let best: BallCandidate | null = null;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    seen[start] = 1;
+    stack.push(start);
+    let area = 0;
+    let movingCount = 0;
+    let sx = 0;
+    let sy = 0;
+    let minX = gw;
+    let maxX = 0;
+    let minY = gh;
+    let maxY = 0;
+    while (stack.length) {
+      const idx = stack.pop()!;
+      const x = idx % gw;
+      const y = (idx - x) / gw;
+      area++;
+      movingCount += moving[idx];
+      sx += x;
+      sy += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      const nb = [
+        x > 0 ? idx - 1 : -1,
+        x < gw - 1 ? idx + 1 : -1,
+        y > 0 ? idx - gw : -1,
+        y < gh - 1 ? idx + gw : -1,
+      ];
+      for (const n of nb) {
+        if (n < 0 || seen[n] || !mask[n]) continue;
+        seen[n] = 1;
+        stack.push(n);
+      }
+    }
+
+    const w = maxX - minX + 1;
+    const h = maxY - minY + 1;
+    const r = (Math.max(w, h) / 2) * step;
+    if (r < o.minRadius || r > o.maxRadius) continue;
+
+    // 圆的面积占外接正方形 π/4，越接近越像球
+    const fill = area / (w * h);
+    const roundness = 1 - Math.min(1, Math.abs(fill - Math.PI / 4) / (Math.PI / 4));
+    const aspect = Math.min(w, h) / Math.max(w, h);
+    const motion = pdata ? movingCount / area : 0.5;
+    const confidence = roundness * 0.4 + aspect * 0.35 + motion * 0.25;
+
+    if (!best || confidence > best.confidence) {
+      best = {
+        x: (sx / area) * step + step / 2,
+        y: (sy / area) * step + step / 2,
+        r,
+        confidence,
+      };
+    }
+  }
+  return best;
+}
+
+export type BallTrackerOpts = {
+  // 最多靠预测顶几帧
+  maxMissed?: number;
+  // 新检测离预测位置超过 gate * 半径 就不认
+  gate?: number;
+  // 检测置信度低于这个当没检测到
+  minConfidence?: number;
+};
+
+// 匀速模型 + alpha-beta 滤波
+export class BallTracker {
+  private readonly opts: Required<BallTrackerOpts>;
+  private state: { x: number; y: number; vx: number; vy: number; r: number; ts: number } | null =
+    null;
+  private missed = 0;
+  private conf = 0;
+
+  constructor(opts: BallTrackerOpts = {}) {
+    this.opts = {
+      maxMissed: opts.maxMissed ?? 8,
+      gate: opts.gate ?? 6,
+      minConfidence: opts.minConfidence ?? 0.35,
+    };
+  }
+
+  reset() {
+    this.state = null;
+    this.missed = 0;
+    this.conf = 0;
+  }
+
+  update(det: BallCandidate | null, ts: number): BallFrame | null {
+    const d = det && det.confidence >= this.opts.minConfidence ? det : null;
+
+    if (!this.state) {
+      if (!d) return null;
+      this.state = { x: d.x, y: d.y, vx: 0, vy: 0, r: d.r, ts };
+      this.conf = d.confidence;
+      this.missed = 0;
+      return { ...d, ts, predicted: false };
+    }
+
+    const dt = Math.max(1e-3, (ts - this.state.ts) / 1000);
+    const px = this.state.x + this.state.vx * dt;
+    const py = this.state.y + this.state.vy * dt;
+
+    const accepted =
+      d && Math.hypot(d.x - px, d.y - py) <= this.opts.gate * Math.max(this.state.r, d.r);
+
+    if (d && accepted) {
+      const alpha = 0.7;
+      const beta = 0.4;
+      const rx = d.x - px;
+      const ry = d.y - py;
+      this.state = {
+        x: px + alpha * rx,
+        y: py + alpha * ry,
+        vx: this.state.vx + (beta * rx) / dt,
+        vy: this.state.vy + (beta * ry) / dt,
+        r: this.state.r * 0.7 + d.r * 0.3,
+        ts,
+      };
+      this.missed = 0;
+      this.conf = d.confidence;
+      return { x: this.state.x, y: this.state.y, r: this.state.r, confidence: this.conf, ts, predicted: false };
+    }
+
+    // 没检测到（或者跳得太远），靠预测顶一下
+    this.missed++;
+    if (this.missed > this.opts.maxMissed) {
+      this.reset();
+      // 跳远了的检测当作新目标重新开始
+      return d ? this.update(d, ts) : null;
+    }
+    this.state = { ...this.state, x: px, y: py, ts };
+    this.conf *= 0.8;
+    return { x: px, y: py, r: this.state.r, confidence: this.conf, ts, predicted: true };
+  }
 }
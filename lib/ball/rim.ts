@@ -0,0 +1,126 @@
+// lib/ball/rim.ts
+// 篮筐定位 + 进没进判定
+// 自动找筐：篮筐是一条橙红色的细横条，在画面上半部分按行找最长的橙色横条；
+// 自动找得不准时，用户在画面上点一下筐的中心，我们就以点击为准。
+
+import type { BallFrame } from './ballTracker';
+
+export type Rim = {
+  x: number; // 筐中心，像素
+  y: number;
+  halfWidth: number; // 半个筐口宽度，像素
+  source: 'auto' | 'manual';
+};
+
+export type ShotOutcome = 'make' | 'miss-short' | 'miss-long' | 'miss-left' | 'miss-right';
+
+export const OUTCOME_LABELS: Record<ShotOutcome, string> = {
+  make: '命中',
+  'miss-short': '偏短',
+  'miss-long': '偏长',
+  'miss-left': '偏左',
+  'miss-right': '偏右',
+};
+
+function isRimColor(r: number, g: number, b: number): boolean {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max !== r || max < 90) return false;
+  const d = max - min;
+  if (d / max < 0.45) return false;
+  const h = (60 * (g - b)) / (d || 1);
+  return h >= -5 && h <= 28;
+}
+
+// 自动找筐：只扫上半个画面，按行统计橙色像素，找最长的水平橙色段
+export function detectRim(img: ImageData, step = 2): Rim | null {
+  const { width, height, data } = img;
+  const maxY = Math.floor(height * 0.6);
+  let best: { y: number; x0: number; x1: number } | null = null;
+  for (let y = 0; y < maxY; y += step) {
+    let runStart = -1;
+    let gap = 0;
+    for (let x = 0; x <= width; x += step) {
+      const i = (y * width + x) * 4;
+      const hit = x < width && isRimColor(data[i], data[i + 1], data[i + 2]);
+      if (hit) {
+        if (runStart < 0) runStart = x;
+        gap = 0;
+        continue;
+      }
+      if (runStart < 0) continue;
+      // 允许几像素的断口（篮网挡住）
+      gap += step;
+      if (gap <= step * 2 && x < width) continue;
+      const x1 = x - gap;
+      if (!best || x1 - runStart > best.x1 - best.x0) best = { y, x0: runStart, x1 };
+      runStart = -1;
+      gap = 0;
+    }
+  }
+  if (!best) return null;
+  const w = best.x1 - best.x0;
+  // 太短的橙色横条多半是球衣、球，不是筐
+  if (w < width * 0.04) return null;
+  return {
+    x: (best.x0 + best.x1) / 2,
+    y: best.y,
+    halfWidth: w / 2,
+    source: 'auto',
+  };
+}
+
+// 用户点击确认：半径沿用自动检测的，没有就按画面宽度估一个
+export function rimFromClick(x: number, y: number, auto: Rim | null, frameWidth: number): Rim {
+  return {
+    x,
+    y,
+    halfWidth: auto?.halfWidth ?? frameWidth * 0.04,
+    source: 'manual',
+  };
+}
+
+export type OutcomeOpts = {
+  // 球心离筐中心多少个半筐宽以内算进
+  makeTol?: number;
+  // 出手点在筐的哪一边（x 方向），决定“长/短”的方向；不给就按球第一帧位置推
+  shooterX?: number;
+  // 侧面机位横向偏差是长/短，正面机位横向偏差是左/右
+  view?: 'side' | 'front';
+};
+
+// 根据出手后的球轨迹判断结果：
+// 找球从筐上方落到筐高度的那一刻，看它横向离筐中心多远
+// 只用真正检测到的球，跟丢时跟踪器推算出来的位置不参与判定
+export function classifyShot(
+  track: BallFrame[],
+  releaseTs: number,
+  rim: Rim,
+  opts: OutcomeOpts = {}
+): ShotOutcome | null {
+  const tol = (opts.makeTol ?? 0.8) * rim.halfWidth;
+  const pts = track.filter((b) => b.ts >= releaseTs && !b.predicted);
+  if (pts.length < 2) return null;
+
+  const shooterX = opts.shooterX ?? pts[0].x;
+  // 投篮方向：从出手点指向篮筐，+1 向右，-1 向左
+  const dir = rim.x >= shooterX ? 1 : -1;
+
+  let wasAbove = false;
+  for (let i = 1; i < pts.length; i++) {
+    const a = pts[i - 1];
+    const b = pts[i];
+    if (a.y < rim.y) wasAbove = true;
+    // 下落过程中穿过筐高度
+    if (wasAbove && a.y < rim.y && b.y >= rim.y) {
+      const k = (rim.y - a.y) / (b.y - a.y || 1);
+      const x = a.x + (b.x - a.x) * k;
+      if (Math.abs(x - rim.x) <= tol) return 'make';
+      if (opts.view === 'front') return x < rim.x ? 'miss-left' : 'miss-right';
+      return (x - rim.x) * dir < 0 ? 'miss-short' : 'miss-long';
+    }
+  }
+
+  // 球一直没到筐上方，或者没跟到下落段，判断不了
+  return null;
+}
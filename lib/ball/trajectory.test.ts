@@ -0,0 +1,52 @@
+// lib/ball/trajectory.test.ts
+import { describe, expect, it } from 'vitest';
+import type { BallFrame } from './ballTracker';
+import { fitBallFlight } from './trajectory';
+
+const TORSO = 100;
+
+// 按 y = a t² + b t + c、x = d t + e 造一段轨迹（t 秒，从出手算），30 帧/秒
+function flight(a: number, b: number, c: number, d: number, e: number, frames: number, fromSec = 0): BallFrame[] {
+  return Array.from({ length: frames }, (_, i) => {
+    const t = fromSec + i / 30;
+    return { x: d * t + e, y: a * t * t + b * t + c, r: 8, confidence: 0.9, ts: 1000 + t * 1000, predicted: false };
+  });
+}
+
+describe('fitBallFlight', () => {
+  it('干净的抛物线能还原出手角、速度和最高点', () => {
+    // 向上 600 px/s、水平 600 px/s，出手角 45 度
+    const f = fitBallFlight(flight(500, -600, 400, 600, 50, 30), 1000, TORSO);
+    expect(f).not.toBeNull();
+    expect(f!.launchAngle).toBeCloseTo(45, 3);
+    expect(f!.launchSpeed).toBeCloseTo(Math.hypot(600, 600) / TORSO, 3);
+    // 顶点在 t = 0.6s，高出出手点 b² / 4a = 180 px
+    expect(f!.apexHeight).toBeCloseTo(1.8, 3);
+    expect(f!.rmsPx).toBeLessThan(1e-6);
+    // 没给篮筐高度时按出手点同高度算，落回去时角度和出手对称
+    expect(f!.entryAngle).toBeCloseTo(45, 3);
+  });
+
+  it('只拍到下落段时，最高点算没测到', () => {
+    // 从 t = 0.7s 才开始有球，顶点（0.6s）不在拟合的时间段里
+    const f = fitBallFlight(flight(500, -600, 400, 600, 50, 12, 0.7), 1000, TORSO);
+    expect(f).not.toBeNull();
+    expect(f!.apexHeight).toBeNaN();
+    expect(Number.isFinite(f!.launchAngle)).toBe(true);
+  });
+
+  it('预测点、低置信度点不参与拟合', () => {
+    const track = flight(500, -600, 400, 600, 50, 30).map((b, i) =>
+      i % 3 === 1 ? { ...b, y: b.y + 200, predicted: true } : i % 3 === 2 ? { ...b, y: b.y - 200, confidence: 0.1 } : b
+    );
+    const f = fitBallFlight(track, 1000, TORSO);
+    expect(f!.samples).toBe(10);
+    expect(f!.launchAngle).toBeCloseTo(45, 3);
+  });
+
+  it('点太少、不是向下开口、躯干长度无效时返回 null', () => {
+    expect(fitBallFlight(flight(500, -600, 400, 600, 50, 3), 1000, TORSO)).toBeNull();
+    expect(fitBallFlight(flight(-500, -600, 400, 600, 50, 30), 1000, TORSO)).toBeNull();
+    expect(fitBallFlight(flight(500, -600, 400, 600, 50, 30), 1000, 0)).toBeNull();
+  });
+});
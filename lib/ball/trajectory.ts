@@ -0,0 +1,166 @@
+// lib/ball/trajectory.ts
+// 出手后球的飞行轨迹：x 方向匀速、y 方向抛物线，用最小二乘拟合
+// 算出出手角、出手速度、最高点高度、进筐角。
+// 距离都换成“躯干长度”（肩中点到髋中点），和机位远近无关。
+
+import type { BallFrame } from './ballTracker';
+
+export type BallFlight = {
+  launchAngle: number; // 度，相对水平向上为正
+  launchSpeed: number; // 躯干长度/秒
+  apexHeight: number; // 最高点比出手点高多少，躯干长度；没看到最高点时为 NaN
+  entryAngle: number; // 度，落到篮筐高度时相对水平向下的角度
+  // 拟合用了几个点、残差（像素），给前端判断靠不靠谱
+  samples: number;
+  rmsPx: number;
+  // 拟合系数，画轨迹用：y = a t² + b t + c, x = d t + e（t 秒，从出手算）
+  coef: { a: number; b: number; c: number; d: number; e: number };
+};
+
+export type FlightFitOpts = {
+  // 只看出手后这么长时间
+  windowSec?: number;
+  minConfidence?: number;
+  // 篮筐高度（像素 y），没有就按出手点同高度算进筐角
+  rimY?: number;
+};
+
+// 解 3x3 线性方程组（高斯消元），给二次拟合用
+function solve3(m: number[][], v: number[]): number[] | null {
+  const a = m.map((row, i) => [...row, v[i]]);
+  for (let col = 0; col < 3; col++) {
+    let piv = col;
+    for (let r = col + 1; r < 3; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[piv][col])) piv = r;
+    }
+    if (Math.abs(a[piv][col]) < 1e-12) return null;
+    [a[col], a[piv]] = [a[piv], a[col]];
+    for (let r = 0; r < 3; r++) {
+      if (r === col) continue;
+      const f = a[r][col] / a[col][col];
+      for (let k = col; k < 4; k++) a[r][k] -= f * a[col][k];
+    }
+  }
+  return [a[0][3] / a[0][0], a[1][3] / a[1][1], a[2][3] / a[2][2]];
+}
+
+function fitQuadratic(ts: number[], ys: number[]): [number, number, number] | null {
+  let s0 = 0;
+  let s1 = 0;
+  let s2 = 0;
+  let s3 = 0;
+  let s4 = 0;
+  let y0 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < ts.length; i++) {
+    const t = ts[i];
+    const t2 = t * t;
+    s0 += 1;
+    s1 += t;
+    s2 += t2;
+    s3 += t2 * t;
+    s4 += t2 * t2;
+    y0 += ys[i];
+    y1 += ys[i] * t;
+    y2 += ys[i] * t2;
+  }
+  const r = solve3(
+    [
+      [s4, s3, s2],
+      [s3, s2, s1],
+      [s2, s1, s0],
+    ],
+    [y2, y1, y0]
+  );
+  return r ? [r[0], r[1], r[2]] : null;
+}
+
+function fitLinear(ts: number[], xs: number[]): [number, number] {
+  const n = ts.length;
+  const mt = ts.reduce((s, v) => s + v, 0) / n;
+  const mx = xs.reduce((s, v) => s + v, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (ts[i] - mt) * (xs[i] - mx);
+    den += (ts[i] - mt) * (ts[i] - mt);
+  }
+  const d = den > 0 ? num / den : 0;
+  return [d, mx - d * mt];
+}
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// track：球的逐帧位置；releaseTs：出手时间（毫秒）；torsoPx：躯干长度（像素）
+export function fitBallFlight(
+  track: BallFrame[],
+  releaseTs: number,
+  torsoPx: number,
+  opts: FlightFitOpts = {}
+): BallFlight | null {
+  if (!(torsoPx > 0)) return null;
+  const windowMs = (opts.windowSec ?? 1.2) * 1000;
+  const minConf = opts.minConfidence ?? 0.3;
+
+  // 预测出来的点不参与拟合，只用真检测到的
+  const pts = track.filter(
+    (b) =>
+      !b.predicted &&
+      b.confidence >= minConf &&
+      b.ts >= releaseTs &&
+      b.ts - releaseTs <= windowMs
+  );
+  if (pts.length < 4) return null;
+
+  const ts = pts.map((b) => (b.ts - releaseTs) / 1000);
+  const quad = fitQuadratic(
+    ts,
+    pts.map((b) => b.y)
+  );
+  if (!quad) return null;
+  const [a, b, c] = quad;
+  // 画面 y 向下，重力让 a > 0；不是向下开口的抛物线就说明没跟到球
+  if (!(a > 0)) return null;
+  const [d, e] = fitLinear(
+    ts,
+    pts.map((p) => p.x)
+  );
+
+  let sq = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const t = ts[i];
+    const dy = a * t * t + b * t + c - pts[i].y;
+    const dx = d * t + e - pts[i].x;
+    sq += dx * dx + dy * dy;
+  }
+
+  const vx = Math.abs(d);
+  const launchAngle = toDeg(Math.atan2(-b, vx));
+  const launchSpeed = Math.hypot(b, d) / torsoPx;
+  // 最高点：出手时刻（t=0）的高度到抛物线顶点的高度差；
+  // 顶点不在拟合的时间段里（比如球一直往下掉），说明没看到最高点，给 NaN 当作没测到
+  const tApex = -b / (2 * a);
+  const yAt = (t: number) => a * t * t + b * t + c;
+  const apexHeight = tApex >= ts[0] && tApex <= ts[ts.length - 1] ? Math.max(0, (c - yAt(tApex)) / torsoPx) : NaN;
+
+  // 下落段到达篮筐高度的时刻：a t² + b t + (c - rimY) = 0 取大根
+  const rimY = opts.rimY ?? c;
+  const disc = b * b - 4 * a * (c - rimY);
+  let entryAngle = NaN;
+  if (disc >= 0) {
+    const tEntry = (-b + Math.sqrt(disc)) / (2 * a);
+    const vyEntry = 2 * a * tEntry + b;
+    entryAngle = toDeg(Math.atan2(vyEntry, vx));
+  }
+
+  return {
+    launchAngle,
+    launchSpeed,
+    apexHeight,
+    entryAngle,
+    samples: pts.length,
+    rmsPx: Math.sqrt(sq / pts.length),
+    coef: { a, b, c, d, e },
+  };
+}
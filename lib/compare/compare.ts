@@ -0,0 +1,86 @@
+// lib/compare/compare.ts
+// 球员这一次投篮 vs 参考动作：按关节角度序列做 DTW 对齐，再逐个对齐步算每个关节的角度差。
+// 角度本身就和站位、远近、身材无关，所以对齐只看角度；画叠加图时才用 normalize.ts 做身材归一化。
+
+import type { PoseResult } from '../pose/poseEngine';
+import {
+  JOINT_ANGLE_KEYS,
+  jointAngles,
+  type JointAngleKey,
+  type JointAngles,
+} from '../analyze/kinematics';
+import type { ShootingHand } from '../analyze/hand';
+import { dtw } from './dtw';
+import { mirrorPose } from './normalize';
+
+export type AlignedStep = {
+  // 球员 / 参考各自的帧下标
+  i: number;
+  j: number;
+  // 球员减参考，度；任一边缺点时没有
+  diff: JointAngles;
+};
+
+export type MotionComparison = {
+  steps: AlignedStep[];
+  // 每个关节的平均绝对角度差
+  meanAbsDiff: JointAngles;
+  // 对齐后平均每步的角度差（度），越小越像
+  cost: number;
+  // 参考动作是不是左右镜像过（投篮手不同时）
+  mirrored: boolean;
+  // 实际参与比较的参考序列（可能镜像过），画图用
+  reference: PoseResult[];
+};
+
+// 两帧之间的距离：各关节角度差的均方根，只算两边都有的关节
+function angleDistance(a: JointAngles, b: JointAngles): number {
+  let sum = 0;
+  let n = 0;
+  for (const k of JOINT_ANGLE_KEYS) {
+    const va = a[k];
+    const vb = b[k];
+    if (va === undefined || vb === undefined) continue;
+    sum += (va - vb) * (va - vb);
+    n++;
+  }
+  // 一个共同关节都没有就当差得很远，DTW 会绕开这一步
+  return n ? Math.sqrt(sum / n) : 180;
+}
+
+export function compareMotions(
+  player: PoseResult[],
+  reference: PoseResult[],
+  hands: { player?: ShootingHand; reference?: ShootingHand } = {}
+): MotionComparison | null {
+  if (player.length < 2 || reference.length < 2) return null;
+  const mirrored = !!hands.player && !!hands.reference && hands.player !== hands.reference;
+  const ref = mirrored ? reference.map(mirrorPose) : reference;
+
+  const pa = player.map(jointAngles);
+  const ra = ref.map(jointAngles);
+  const { path, cost } = dtw(pa.length, ra.length, (i, j) => angleDistance(pa[i], ra[j]));
+  if (!path.length) return null;
+
+  const sums: Partial<Record<JointAngleKey, { s: number; n: number }>> = {};
+  const steps: AlignedStep[] = path.map(([i, j]) => {
+    const diff: JointAngles = {};
+    for (const k of JOINT_ANGLE_KEYS) {
+      const a = pa[i][k];
+      const b = ra[j][k];
+      if (a === undefined || b === undefined) continue;
+      diff[k] = a - b;
+      const acc = (sums[k] ??= { s: 0, n: 0 });
+      acc.s += Math.abs(a - b);
+      acc.n++;
+    }
+    return { i, j, diff };
+  });
+
+  const meanAbsDiff: JointAngles = {};
+  for (const k of JOINT_ANGLE_KEYS) {
+    const acc = sums[k];
+    if (acc?.n) meanAbsDiff[k] = acc.s / acc.n;
+  }
+  return { steps, meanAbsDiff, cost, mirrored, reference: ref };
+}
@@ -0,0 +1,67 @@
+// lib/compare/dtw.ts
+// 动态时间规整（DTW）：两段节奏不一样的动作，找一条逐帧对应的路径，让对应帧之间的差别总和最小。
+// 比如球员下蹲慢、出手快，模板下蹲快、出手慢，对齐后下蹲对下蹲、出手对出手。
+
+export type DtwResult = {
+  // 对应关系 [a 的下标, b 的下标]，从头到尾单调不减
+  path: [number, number][];
+  // 路径上的平均代价
+  cost: number;
+};
+
+export type DtwOpts = {
+  // Sakoe-Chiba 窗口：只允许偏离对角线这么多比例，防止一帧对上半段
+  window?: number;
+};
+
+export function dtw(n: number, m: number, dist: (i: number, j: number) => number, opts: DtwOpts = {}): DtwResult {
+  if (!n || !m) return { path: [], cost: NaN };
+  // 两段长度不同，窗口至少要容得下斜率差
+  const w = Math.max(Math.ceil(Math.max(n, m) * (opts.window ?? 0.3)), Math.abs(n - m) + 1);
+  const INF = Number.POSITIVE_INFINITY;
+  const acc = new Float64Array(n * m).fill(INF);
+  const at = (i: number, j: number) => i * m + j;
+
+  for (let i = 0; i < n; i++) {
+    // 对角线按长度比例走
+    const center = Math.round((i * (m - 1)) / Math.max(1, n - 1));
+    const lo = Math.max(0, center - w);
+    const hi = Math.min(m - 1, center + w);
+    for (let j = lo; j <= hi; j++) {
+      const d = dist(i, j);
+      if (i === 0 && j === 0) {
+        acc[0] = d;
+        continue;
+      }
+      const best = Math.min(
+        i > 0 ? acc[at(i - 1, j)] : INF,
+        j > 0 ? acc[at(i, j - 1)] : INF,
+        i > 0 && j > 0 ? acc[at(i - 1, j - 1)] : INF
+      );
+      acc[at(i, j)] = best + d;
+    }
+  }
+
+  // 从终点往回找
+  const path: [number, number][] = [];
+  let i = n - 1;
+  let j = m - 1;
+  if (!Number.isFinite(acc[at(i, j)])) return { path: [], cost: NaN };
+  path.push([i, j]);
+  while (i > 0 || j > 0) {
+    const diag = i > 0 && j > 0 ? acc[at(i - 1, j - 1)] : INF;
+    const up = i > 0 ? acc[at(i - 1, j)] : INF;
+    const left = j > 0 ? acc[at(i, j - 1)] : INF;
+    if (diag <= up && diag <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+  return { path, cost: acc[at(n - 1, m - 1)] / path.length };
+}
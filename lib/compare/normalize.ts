@@ -0,0 +1,33 @@
+// lib/compare/normalize.ts
+// 身材归一化：把关键点平移到髋中点为原点、按躯干长度缩放，高矮胖瘦、离镜头远近不同的两个人也能叠在一起比。
+
+import type { PoseKeypoint, PoseResult } from '../pose/poseEngine';
+import { kp, torsoLength } from '../analyze/kinematics';
+
+// 归一化后的坐标单位是“躯干长度”，y 仍然向下
+export function normalizePose(p: PoseResult): PoseKeypoint[] {
+  const lh = kp(p, 'left_hip');
+  const rh = kp(p, 'right_hip');
+  const torso = torsoLength(p);
+  if (!lh || !rh || !Number.isFinite(torso) || torso <= 0) return [];
+  const cx = (lh.x + rh.x) / 2;
+  const cy = (lh.y + rh.y) / 2;
+  return p.keypoints.map((k) => ({ ...k, x: (k.x - cx) / torso, y: (k.y - cy) / torso }));
+}
+
+// left_xxx ↔ right_xxx，左右镜像时换名字用
+export function swapSide(name: string): string {
+  if (name.startsWith('left_')) return `right_${name.slice(5)}`;
+  if (name.startsWith('right_')) return `left_${name.slice(6)}`;
+  return name;
+}
+
+// 左右镜像：x 取反、左右点互换名字。左手投篮的模板拿来给右手球员比时用
+export function mirrorPose(p: PoseResult): PoseResult {
+  const xs = p.keypoints.map((k) => k.x);
+  const mid = (Math.min(...xs) + Math.max(...xs)) / 2;
+  return {
+    ...p,
+    keypoints: p.keypoints.map((k) => ({ ...k, name: swapSide(k.name), x: 2 * mid - k.x })),
+  };
+}
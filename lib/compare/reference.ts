@@ -0,0 +1,29 @@
+// lib/compare/reference.ts
+// 参考动作（示范投篮、球员自己最好的一次）可以从“导出 → 完整分析 JSON”的文件读回来，
+// 不用再跑一遍识别。视频文件走 lib/pose/videoPoses.ts 现场识别。
+
+import type { PoseResult } from '../pose/poseEngine';
+import { ANALYSIS_EXPORT_SCHEMA, type AnalysisExport } from '../export/analysisExport';
+
+export type ReferenceMotion = {
+  name: string;
+  seq: PoseResult[];
+};
+
+export function parseReferenceJSON(text: string, name: string): ReferenceMotion {
+  let data: Partial<AnalysisExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('不是合法的 JSON 文件');
+  }
+  if (data?.schema !== ANALYSIS_EXPORT_SCHEMA || !Array.isArray(data.frames)) {
+    throw new Error('不是本工具导出的完整分析文件（缺少 schema 或 frames）');
+  }
+  const layout = data.analysis?.layout ?? undefined;
+  const seq: PoseResult[] = data.frames
+    .filter((f) => Array.isArray(f?.keypoints) && typeof f.ts === 'number')
+    .map((f) => ({ id: 'ref', keypoints: f.keypoints, score: 1, ts: f.ts, layout }));
+  if (seq.length < 3) throw new Error('文件里的关键点帧太少');
+  return { name: data.clip?.name || name, seq };
+}
@@ -0,0 +1,240 @@
+// lib/compare/similarity.ts
+// 动作相似度：球员这一次投篮的关键点轨迹 vs 存下来的模板轨迹。
+// 1) 每帧先归一化（髋中点为原点、躯干长度为 1），再对每一对帧做 Procrustes 对齐（平移、缩放、旋转都消掉），
+//    剩下的残差才是真正的“姿势不一样”；
+// 2) 用残差做 DTW，把节奏不同的两段动作对齐；
+// 3) 残差按身体部位、按动作阶段分别汇总，告诉教练哪里差得最多。
+// 这是规则打分之外的参考分，不进总分。
+
+import type { PoseResult } from '../pose/poseEngine';
+import type { MotionTemplate, TemplateFrame } from '../../config/coach';
+import type { ShootingHand } from '../analyze/hand';
+import { phaseOf, type ShotPhase, type ShotPhaseName } from '../analyze/phases';
+import { normalizePose, swapSide } from './normalize';
+import { dtw } from './dtw';
+
+type Points = Record<string, [number, number]>;
+
+// 模板只存这些点：COCO 17 点模型也都有，换模型录的模板照样能比
+export const TEMPLATE_JOINTS = [
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+];
+
+// 残差（Procrustes 后，整体尺度为 1）到 0~100 分：残差为 0 满分，到这个值 0 分
+const ZERO_SCORE_RESIDUAL = 0.4;
+
+const MIN_KP_SCORE = 0.3;
+
+export type SegmentKey = 'shootingArm' | 'guideArm' | 'torso' | 'legs';
+
+export const SEGMENT_LABELS: Record<SegmentKey, string> = {
+  shootingArm: '投篮臂',
+  guideArm: '辅助臂',
+  torso: '躯干',
+  legs: '下肢',
+};
+
+function segmentJoints(seg: SegmentKey, side: ShootingHand): string[] {
+  const other = side === 'left' ? 'right' : 'left';
+  switch (seg) {
+    case 'shootingArm':
+      return [`${side}_shoulder`, `${side}_elbow`, `${side}_wrist`];
+    case 'guideArm':
+      return [`${other}_elbow`, `${other}_wrist`];
+    case 'torso':
+      return ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip'];
+    case 'legs':
+      return ['left_knee', 'right_knee', 'left_ankle', 'right_ankle'];
+  }
+}
+
+export type Deviation<K extends string> = {
+  key: K;
+  score: number; // 0~100
+  residual: number;
+};
+
+export type TemplateSimilarity = {
+  template: string;
+  score: number; // 0~100
+  residual: number;
+  // 从差到好排
+  segments: Deviation<SegmentKey>[];
+  phases: Deviation<ShotPhaseName>[];
+  mirrored: boolean;
+};
+
+const toScore = (residual: number) =>
+  Math.round(Math.max(0, Math.min(100, 100 * (1 - residual / ZERO_SCORE_RESIDUAL))));
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+function framePoints(p: PoseResult): Points {
+  const out: Points = {};
+  for (const k of normalizePose(p)) {
+    if (!TEMPLATE_JOINTS.includes(k.name) || (k.score ?? 1) < MIN_KP_SCORE) continue;
+    out[k.name] = [round3(k.x), round3(k.y)];
+  }
+  return out;
+}
+
+// 归一化坐标原点在髋中点，镜像就是 x 取反、左右互换
+function mirrorPoints(pts: Points): Points {
+  const out: Points = {};
+  for (const [name, [x, y]] of Object.entries(pts)) out[swapSide(name)] = [-x, y];
+  return out;
+}
+
+type Procrustes = {
+  residual: number;
+  // 每个关节对齐后的距离
+  perJoint: Record<string, number>;
+};
+
+// 2D Procrustes：两组点都去中心、缩放到整体尺度 1，再找最优旋转，返回对齐后的均方根残差
+function procrustes(a: Points, b: Points): Procrustes | null {
+  const names = Object.keys(a).filter((n) => n in b);
+  if (names.length < 3) return null;
+  const center = (pts: Points) => {
+    let x = 0;
+    let y = 0;
+    for (const n of names) {
+      x += pts[n][0];
+      y += pts[n][1];
+    }
+    return [x / names.length, y / names.length];
+  };
+  const [ax, ay] = center(a);
+  const [bx, by] = center(b);
+  const pa = names.map((n) => [a[n][0] - ax, a[n][1] - ay]);
+  const pb = names.map((n) => [b[n][0] - bx, b[n][1] - by]);
+  const norm = (ps: number[][]) => Math.sqrt(ps.reduce((s, [x, y]) => s + x * x + y * y, 0) / ps.length) || 1;
+  const na = norm(pa);
+  const nb = norm(pb);
+  const ua = pa.map(([x, y]) => [x / na, y / na]);
+  const ub = pb.map(([x, y]) => [x / nb, y / nb]);
+
+  // 把 b 旋转 θ 贴到 a 上
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < ua.length; i++) {
+    sxx += ua[i][0] * ub[i][0] + ua[i][1] * ub[i][1];
+    sxy += ua[i][1] * ub[i][0] - ua[i][0] * ub[i][1];
+  }
+  const theta = Math.atan2(sxy, sxx);
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+
+  const perJoint: Record<string, number> = {};
+  let sum = 0;
+  names.forEach((n, i) => {
+    const rx = c * ub[i][0] - s * ub[i][1];
+    const ry = s * ub[i][0] + c * ub[i][1];
+    const d = Math.hypot(ua[i][0] - rx, ua[i][1] - ry);
+    perJoint[n] = d;
+    sum += d * d;
+  });
+  return { residual: Math.sqrt(sum / names.length), perJoint };
+}
+
+// 从分析好的一次投篮录模板；phases 的下标相对 seq
+export function recordTemplate(
+  name: string,
+  seq: PoseResult[],
+  phases: ShotPhase[],
+  hand: ShootingHand
+): MotionTemplate | null {
+  const release = phases.find((p) => p.name === 'release');
+  if (!release || seq.length < 2) return null;
+  const t0 = seq[release.startIdx].ts;
+  const frames: TemplateFrame[] = seq.map((p) => ({ t: Math.round(p.ts - t0), points: framePoints(p) }));
+  return {
+    name,
+    createdAt: new Date().toISOString(),
+    hand,
+    frames,
+    phases: phases.map((p) => ({ name: p.name, startIdx: p.startIdx, endIdx: p.endIdx })),
+  };
+}
+
+type Acc = { sum: number; n: number };
+
+function addTo<K extends string>(m: Partial<Record<K, Acc>>, k: K, v: number) {
+  const a = (m[k] ??= { sum: 0, n: 0 });
+  a.sum += v;
+  a.n++;
+}
+
+function deviations<K extends string>(m: Partial<Record<K, Acc>>): Deviation<K>[] {
+  return (Object.entries(m) as [K, Acc][])
+    .filter(([, a]) => a.n > 0)
+    .map(([key, a]) => {
+      const residual = a.sum / a.n;
+      return { key, residual, score: toScore(residual) };
+    })
+    .sort((x, y) => y.residual - x.residual);
+}
+
+// phases 的下标相对 seq，用来按阶段汇总
+export function templateSimilarity(
+  seq: PoseResult[],
+  phases: ShotPhase[],
+  hand: ShootingHand,
+  template: MotionTemplate
+): TemplateSimilarity | null {
+  if (seq.length < 2 || template.frames.length < 2) return null;
+  const mirrored = template.hand !== hand;
+  const player = seq.map(framePoints);
+  const tpl = template.frames.map((f) => (mirrored ? mirrorPoints(f.points) : f.points));
+
+  // DTW 会反复比同一对帧，先缓存
+  const cache = new Map<number, Procrustes | null>();
+  const pairOf = (i: number, j: number) => {
+    const key = i * tpl.length + j;
+    if (!cache.has(key)) cache.set(key, procrustes(player[i], tpl[j]));
+    return cache.get(key)!;
+  };
+  const { path } = dtw(player.length, tpl.length, (i, j) => pairOf(i, j)?.residual ?? 1);
+  if (!path.length) return null;
+
+  let sum = 0;
+  let n = 0;
+  const bySegment: Partial<Record<SegmentKey, Acc>> = {};
+  const byPhase: Partial<Record<ShotPhaseName, Acc>> = {};
+  const segs = Object.keys(SEGMENT_LABELS) as SegmentKey[];
+  for (const [i, j] of path) {
+    const pr = pairOf(i, j);
+    if (!pr) continue;
+    sum += pr.residual;
+    n++;
+    const ph = phaseOf(phases, i);
+    if (ph) addTo(byPhase, ph, pr.residual);
+    for (const seg of segs) {
+      const ds = segmentJoints(seg, hand)
+        .map((name) => pr.perJoint[name])
+        .filter((d): d is number => d !== undefined);
+      if (ds.length) addTo(bySegment, seg, ds.reduce((a, b) => a + b, 0) / ds.length);
+    }
+  }
+  if (!n) return null;
+  const residual = sum / n;
+  return {
+    template: template.name,
+    score: toScore(residual),
+    residual,
+    segments: deviations(bySegment),
+    phases: deviations(byPhase),
+    mirrored,
+  };
+}
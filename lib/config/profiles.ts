@@ -0,0 +1,121 @@
+// lib/config/profiles.ts
+// 教练配置存在浏览器 localStorage 里：
+// - 当前正在用的一份（刷新页面后接着用）
+// - 若干份有名字的方案（比如“青训组”“校队后卫”），可以导入导出 JSON
+// 读出来的配置都先过 config/schema.ts 迁移到当前版本再校验，老版本存的方案升级后照样能用。
+
+import { DEFAULT_CONFIG, type CoachConfig } from '../../config/coach';
+import { ConfigValidationError, loadCoachConfig } from '../../config/schema';
+
+const ACTIVE_KEY = 'coach-config:active';
+const PROFILES_KEY = 'coach-config:profiles';
+
+export type CoachProfile = {
+  name: string;
+  config: CoachConfig;
+  savedAt: string; // ISO 时间
+};
+
+function hasStorage(): boolean {
+  try {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  } catch {
+    return false;
+  }
+}
+
+function readJSON<T>(key: string, fallback: T): T {
+  if (!hasStorage()) return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  if (!hasStorage()) return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // 存储满了或者隐私模式，不影响分析
+  }
+}
+
+const issuesOf = (err: unknown): string[] =>
+  err instanceof ConfigValidationError ? err.issues : [err instanceof Error ? err.message : String(err)];
+
+export type ActiveConfigLoad = {
+  config: CoachConfig;
+  // 存的配置读不出来、回到默认时，列出原因给页面提示；正常为 null
+  dropped: string[] | null;
+};
+
+export function loadActiveConfig(): ActiveConfigLoad {
+  try {
+    return { config: loadCoachConfig(readJSON<unknown>(ACTIVE_KEY, DEFAULT_CONFIG)), dropped: null };
+  } catch (err) {
+    // 存坏了就回到默认，不能让分析页打不开；存的原样留着，不覆盖，告诉用户为什么
+    return { config: DEFAULT_CONFIG, dropped: issuesOf(err) };
+  }
+}
+
+export function saveActiveConfig(cfg: CoachConfig) {
+  writeJSON(ACTIVE_KEY, cfg);
+}
+
+export type ProfileList = {
+  profiles: CoachProfile[];
+  // 迁移或校验不过的方案：不显示，但仍留在存储里，列出名字和原因
+  dropped: { name: string; issues: string[] }[];
+};
+
+function readProfiles(): any[] {
+  const raw = readJSON<unknown>(PROFILES_KEY, []);
+  return Array.isArray(raw) ? raw : [];
+}
+
+export function listProfiles(): ProfileList {
+  const out: ProfileList = { profiles: [], dropped: [] };
+  for (const p of readProfiles()) {
+    try {
+      out.profiles.push({ ...p, config: loadCoachConfig(p?.config) });
+    } catch (err) {
+      out.dropped.push({ name: typeof p?.name === 'string' ? p.name : '(未命名)', issues: issuesOf(err) });
+    }
+  }
+  return out;
+}
+
+// 同名覆盖；读不出来的老方案原样保留
+export function saveProfile(name: string, config: CoachConfig): ProfileList {
+  const next = readProfiles().filter((p) => p?.name !== name);
+  next.push({ name, config, savedAt: new Date().toISOString() });
+  writeJSON(PROFILES_KEY, next);
+  return listProfiles();
+}
+
+export function deleteProfile(name: string): ProfileList {
+  writeJSON(PROFILES_KEY, readProfiles().filter((p) => p?.name !== name));
+  return listProfiles();
+}
+
+// 导出文件的格式：{ name, config, savedAt }，导入时也接受直接就是 CoachConfig 的文件
+// 文件不合法时抛 ConfigValidationError，message 里逐条列出问题
+export function parseProfile(text: string, fallbackName: string): CoachProfile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConfigValidationError(['(根): 不是合法的 JSON 文件']);
+  }
+  if (data && typeof data === 'object' && 'config' in data) {
+    return {
+      name: typeof data.name === 'string' && data.name ? data.name : fallbackName,
+      config: loadCoachConfig(data.config),
+      savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    };
+  }
+  return { name: fallbackName, config: loadCoachConfig(data), savedAt: new Date().toISOString() };
+}
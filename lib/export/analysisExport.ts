@@ -0,0 +1,222 @@
+// lib/export/analysisExport.ts
+// 把一次分析整理成固定格式的导出文档：视频信息、逐帧关键点和角度、阶段、特征、分数。
+// 字段说明见 public/docs/EXPORT_SCHEMA.md；改字段要同步改文档并加 ANALYSIS_EXPORT_VERSION。
+
+import type { PoseKeypoint, PoseResult } from '../pose/poseEngine';
+import type { SkeletonLayout } from '../pose/landmarks';
+import type { CoachConfig } from '../../config/coach';
+import type { AnalyzeConfig } from '../analyze/config';
+import { JOINT_ANGLE_KEYS, jointAngles, type JointAngles } from '../analyze/kinematics';
+import { phaseOf, type ShotPhase, type ShotPhaseName } from '../analyze/phases';
+import type { FeatureKey } from '../analyze/features';
+import type { SessionAggregate, ShotSession } from '../analyze/shots';
+import type { ShootingHand } from '../analyze/hand';
+import type { CameraView } from '../analyze/viewpoint';
+import type { KeypointGap } from '../pose/gapFill';
+import type { Rim, ShotOutcome } from '../ball/rim';
+import type { Bucket, FeatureVector } from '../score/scorer';
+
+export const ANALYSIS_EXPORT_SCHEMA = 'basketball-analyst/analysis';
+export const ANALYSIS_EXPORT_VERSION = 1;
+
+export type ExportClip = {
+  name: string;
+  durationSec: number;
+  // 关键点坐标所在的像素坐标系，等于视频原始分辨率
+  width: number;
+  height: number;
+};
+
+// 逐帧角度，单位度；缺点时没有这个字段
+export type FrameAngles = JointAngles;
+
+export type ExportFrame = {
+  index: number;
+  ts: number; // ms，视频媒体时间
+  // 属于第几次投篮，从 0 开始
+  shot: number;
+  phase: ShotPhaseName | null;
+  keypoints: PoseKeypoint[];
+  angles: FrameAngles;
+};
+
+export type ExportShot = {
+  index: number;
+  startIdx: number;
+  endIdx: number;
+  startTs: number;
+  endTs: number;
+  // 下标已换算成整段 frames 的下标
+  phases: ShotPhase[];
+  hand: ShootingHand | null;
+  view: CameraView | null;
+  outcome: ShotOutcome | null;
+  // 补帧后仍然长时间丢失的关键点，下标同样是整段 frames 的下标
+  gaps: KeypointGap[];
+  features: FeatureVector;
+  missing: Partial<Record<FeatureKey, string>>;
+  total: number;
+  buckets: Bucket[];
+  suggestions: string[];
+};
+
+export type AnalysisExport = {
+  schema: typeof ANALYSIS_EXPORT_SCHEMA;
+  version: typeof ANALYSIS_EXPORT_VERSION;
+  exportedAt: string; // ISO 时间
+  clip: ExportClip;
+  analysis: {
+    mode: AnalyzeConfig['mode'];
+    offlineFps: number | null;
+    layout: SkeletonLayout | null;
+    frameCount: number;
+    rim: Rim | null;
+  };
+  // 打分时用的完整教练配置，拿到文件就能复现分数
+  coach: CoachConfig;
+  frames: ExportFrame[];
+  shots: ExportShot[];
+  aggregate: SessionAggregate | null;
+};
+
+export type AnalysisExportInput = {
+  clip: ExportClip;
+  seq: PoseResult[];
+  session: ShotSession;
+  coach: CoachConfig;
+  analyze: AnalyzeConfig;
+  rim: Rim | null;
+};
+
+export function buildAnalysisExport(input: AnalysisExportInput): AnalysisExport {
+  const { seq, session } = input;
+
+  const shots: ExportShot[] = session.shots.map((s) => {
+    const r = s.result;
+    return {
+      index: s.index,
+      startIdx: s.startIdx,
+      endIdx: s.endIdx,
+      startTs: s.startTs,
+      endTs: s.endTs,
+      phases: (r.phases ?? []).map((ph) => ({
+        ...ph,
+        startIdx: ph.startIdx + s.startIdx,
+        endIdx: ph.endIdx + s.startIdx,
+      })),
+      hand: r.hand ?? null,
+      view: r.view?.view ?? null,
+      outcome: r.outcome ?? null,
+      gaps: (r.gaps ?? []).map((g) => ({ ...g, startIdx: g.startIdx + s.startIdx, endIdx: g.endIdx + s.startIdx })),
+      features: r.features,
+      missing: r.missing,
+      total: r.total,
+      buckets: r.buckets,
+      suggestions: r.suggestions,
+    };
+  });
+
+  const frames: ExportFrame[] = seq.map((p, index) => {
+    const shot = shots.find((s) => index >= s.startIdx && index <= s.endIdx);
+    return {
+      index,
+      ts: p.ts,
+      shot: shot?.index ?? -1,
+      phase: shot ? phaseOf(shot.phases, index) : null,
+      keypoints: p.keypoints,
+      angles: jointAngles(p),
+    };
+  });
+
+  return {
+    schema: ANALYSIS_EXPORT_SCHEMA,
+    version: ANALYSIS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    clip: input.clip,
+    analysis: {
+      mode: input.analyze.mode,
+      offlineFps: input.analyze.mode === 'offline' ? input.analyze.offlineFps : null,
+      layout: seq[0]?.layout ?? null,
+      frameCount: seq.length,
+      rim: input.rim,
+    },
+    coach: input.coach,
+    frames,
+    shots,
+    aggregate: session.aggregate,
+  };
+}
+
+// 逐帧表：一帧一行，关键点按第一次出现的顺序展开成 name_x / name_y / name_score 三列
+export function framesTable(doc: AnalysisExport): { header: string[]; rows: unknown[][] } {
+  const names: string[] = [];
+  for (const f of doc.frames) {
+    for (const k of f.keypoints) if (!names.includes(k.name)) names.push(k.name);
+  }
+  const header = [
+    'frame',
+    'ts_ms',
+    'shot',
+    'phase',
+    ...JOINT_ANGLE_KEYS.map((c) => `angle_${c}`),
+    ...names.flatMap((n) => [`${n}_x`, `${n}_y`, `${n}_score`]),
+  ];
+  const rows = doc.frames.map((f) => {
+    const byName = new Map(f.keypoints.map((k) => [k.name, k]));
+    return [
+      f.index,
+      Math.round(f.ts),
+      f.shot + 1,
+      f.phase ?? '',
+      ...JOINT_ANGLE_KEYS.map((c) => round(f.angles[c], 2)),
+      ...names.flatMap((n) => {
+        const k = byName.get(n);
+        return [round(k?.x, 1), round(k?.y, 1), round(k?.score, 3)];
+      }),
+    ];
+  });
+  return { header, rows };
+}
+
+// 逐次投篮表：一次一行，列是总分、每个大项分数、每个特征的测量值
+export function shotsTable(doc: AnalysisExport): { header: string[]; rows: unknown[][] } {
+  const bucketNames = doc.coach.weights.map((b) => b.name);
+  const featureKeys = doc.coach.weights.flatMap((b) => b.items.map((it) => it.key));
+  const header = [
+    'shot',
+    'start_s',
+    'end_s',
+    'release_s',
+    'hand',
+    'view',
+    'outcome',
+    'total',
+    ...bucketNames.map((n) => `bucket_${n}`),
+    ...featureKeys,
+  ];
+  const rows = doc.shots.map((s) => {
+    const rel = s.phases.find((ph) => ph.name === 'release');
+    return [
+      s.index + 1,
+      round(s.startTs / 1000, 3),
+      round(s.endTs / 1000, 3),
+      rel ? round(rel.startTs / 1000, 3) : '',
+      s.hand ?? '',
+      s.view ?? '',
+      s.outcome ?? '',
+      s.total,
+      ...bucketNames.map((n) => {
+        const b = s.buckets.find((x) => x.name === n);
+        return b?.measured ? b.score : undefined;
+      }),
+      ...featureKeys.map((k) => round((s.features as Record<string, number | undefined>)[k], 4)),
+    ];
+  });
+  return { header, rows };
+}
+
+function round(v: number | undefined, digits: number): number | undefined {
+  if (v === undefined || !Number.isFinite(v)) return undefined;
+  const m = 10 ** digits;
+  return Math.round(v * m) / m;
+}
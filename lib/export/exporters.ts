@@ -1,4 +1,27 @@
-export function exportJSON(data:any){
-  const url = URL.createObjectURL(new Blob([JSON.stringify(data,null,2)], {type:'application/json'}))
-  const a = document.createElement('a'); a.href=url; a.download='analysis.json'; a.click()
+export function downloadBlob(blob: Blob, filename: string){
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a'); a.href=url; a.download=filename; a.click()
+  // 给浏览器一点时间开始下载再释放
+  setTimeout(()=>URL.revokeObjectURL(url), 1000)
+}
+
+export function exportJSON(data:any, filename='analysis.json'){
+  downloadBlob(new Blob([JSON.stringify(data,null,2)], {type:'application/json'}), filename)
+}
+
+// 一格里有逗号、引号、换行就加引号；undefined / NaN 留空
+function csvCell(v: unknown): string {
+  if (v === undefined || v === null) return ''
+  if (typeof v === 'number') return Number.isFinite(v) ? String(v) : ''
+  const s = String(v)
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function toCSV(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\r\n')
+}
+
+// 带 BOM，Excel 直接双击打开中文不乱码
+export function exportCSV(header: string[], rows: unknown[][], filename='analysis.csv'){
+  downloadBlob(new Blob(['\uFEFF' + toCSV(header, rows)], {type:'text/csv;charset=utf-8'}), filename)
 }
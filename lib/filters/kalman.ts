@@ -0,0 +1,88 @@
+// lib/filters/kalman.ts
+// 匀速模型的卡尔曼滤波：状态是位置 + 速度，x、y 各算各的。
+// 和 One Euro 比，它会按估出来的速度往前推，动作匀速时几乎没有滞后；
+// 代价是急停、急转（比如出手后手腕突然停住）会冲过头一点，processNoise 越大冲得越少、也越抖。
+
+export type KalmanConfig = {
+  // 加速度的标准差（像素/秒²），越大越相信测量、越跟得紧
+  processNoise: number;
+  // 关键点测量误差的标准差（像素），越大越平滑
+  measurementNoise: number;
+};
+
+// 第一帧不知道速度，给一个很宽的初值（像素/秒）
+const INITIAL_SPEED_STD = 1000;
+
+class Kalman1D {
+  private p = 0;
+  private v = 0;
+  // 协方差矩阵 [[p00, p01], [p10, p11]]
+  private p00 = 0;
+  private p01 = 0;
+  private p10 = 0;
+  private p11 = 0;
+  private tPrev = 0;
+  private hasPrev = false;
+  private readonly cfg: KalmanConfig;
+
+  constructor(cfg: KalmanConfig) {
+    this.cfg = cfg;
+  }
+
+  filter(z: number, t: number) {
+    const r = this.cfg.measurementNoise ** 2;
+    if (!this.hasPrev) {
+      this.hasPrev = true;
+      this.tPrev = t;
+      this.p = z;
+      this.v = 0;
+      this.p00 = r;
+      this.p01 = 0;
+      this.p10 = 0;
+      this.p11 = INITIAL_SPEED_STD ** 2;
+      return z;
+    }
+
+    const dt = Math.max(t - this.tPrev, 1e-6);
+    this.tPrev = t;
+
+    // 1. 预测：x = F x，P = F P Fᵀ + Q（Q 按离散白噪声加速度模型）
+    const q = this.cfg.processNoise ** 2;
+    this.p += this.v * dt;
+    const a00 = this.p00 + dt * (this.p10 + this.p01) + dt * dt * this.p11 + (q * dt ** 4) / 4;
+    const a01 = this.p01 + dt * this.p11 + (q * dt ** 3) / 2;
+    const a10 = this.p10 + dt * this.p11 + (q * dt ** 3) / 2;
+    const a11 = this.p11 + q * dt * dt;
+
+    // 2. 更新：只观测位置
+    const s = a00 + r;
+    const k0 = a00 / s;
+    const k1 = a10 / s;
+    const innov = z - this.p;
+    this.p += k0 * innov;
+    this.v += k1 * innov;
+    this.p00 = (1 - k0) * a00;
+    this.p01 = (1 - k0) * a01;
+    this.p10 = a10 - k1 * a00;
+    this.p11 = a11 - k1 * a01;
+
+    return this.p;
+  }
+}
+
+export class Kalman2D {
+  private fx: Kalman1D;
+  private fy: Kalman1D;
+
+  constructor(cfg: KalmanConfig) {
+    this.fx = new Kalman1D(cfg);
+    this.fy = new Kalman1D(cfg);
+  }
+
+  filter(pt: { x: number; y: number }, t: number) {
+    return {
+      x: this.fx.filter(pt.x, t),
+      y: this.fy.filter(pt.y, t),
+    };
+  }
+}
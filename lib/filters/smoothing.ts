@@ -0,0 +1,69 @@
+// lib/filters/smoothing.ts
+// 关键点平滑的统一入口：按配置挑滤波器。
+// oneEuro、kalman 是逐帧的因果滤波，实时模式也能用；
+// zeroPhase 要整段识别完才能算，识别过程中先用 oneEuro 预览，结束后用 smoothOffline 从原始点重新算一遍。
+
+import type { SmoothConfig, SmoothFilterKind } from '../../config/coach';
+import type { PoseResult } from '../pose/poseEngine';
+import { OneEuro2D } from './oneEuro';
+import { Kalman2D } from './kalman';
+import { zeroPhaseSmooth } from './zeroPhase';
+
+export type Point2D = { x: number; y: number };
+
+// 所有逐帧滤波器的公共接口；t 单位秒
+export interface PointFilter {
+  filter(pt: Point2D, t: number): Point2D;
+}
+
+export const FILTER_LABELS: Record<SmoothFilterKind, string> = {
+  oneEuro: 'One Euro',
+  kalman: '卡尔曼（匀速）',
+  zeroPhase: '零相位（前后双向）',
+};
+
+export const DEFAULT_KALMAN = { processNoise: 3000, measurementNoise: 3 };
+// 人体动作的能量基本在 6Hz 以下，生物力学里常用 4~8Hz
+export const DEFAULT_CUTOFF_HZ = 6;
+
+export const filterKindOf = (cfg: SmoothConfig): SmoothFilterKind => cfg.filter ?? 'oneEuro';
+
+export function createPointFilter(cfg: SmoothConfig): PointFilter {
+  if (filterKindOf(cfg) === 'kalman') {
+    return new Kalman2D({
+      processNoise: cfg.processNoise ?? DEFAULT_KALMAN.processNoise,
+      measurementNoise: cfg.measurementNoise ?? DEFAULT_KALMAN.measurementNoise,
+    });
+  }
+  return new OneEuro2D(cfg);
+}
+
+// 整段识别完之后调用；不是 zeroPhase 就原样返回。threshold 是关键点置信度门限，低于它的点不参与平滑
+export function smoothOffline(seq: PoseResult[], cfg: SmoothConfig, threshold?: number): PoseResult[] {
+  if (filterKindOf(cfg) !== 'zeroPhase') return seq;
+  return zeroPhaseSmooth(seq, cfg.cutoffHz ?? DEFAULT_CUTOFF_HZ, threshold);
+}
+
+// 改了平滑参数后从原始点（raw）把整段重新平滑一遍，不用重跑识别。
+// 逐帧滤波器按时间顺序从头喂，和识别时 PoseEngine 的做法一样，低于 threshold 的点不喂、原样带出去
+export function resmooth(seq: PoseResult[], cfg: SmoothConfig, threshold = 0): PoseResult[] {
+  if (filterKindOf(cfg) === 'zeroPhase') return smoothOffline(seq, cfg, threshold);
+  const filters = new Map<string, PointFilter>();
+  return seq.map((p) => {
+    const source = p.raw ?? p.keypoints;
+    return {
+      ...p,
+      keypoints: source.map((k) => {
+        if ((k.score ?? 1) < threshold) return { ...k };
+        let f = filters.get(k.name);
+        if (!f) {
+          f = createPointFilter(cfg);
+          filters.set(k.name, f);
+        }
+        const { x, y } = f.filter({ x: k.x, y: k.y }, p.ts / 1000);
+        return { ...k, x, y };
+      }),
+      raw: source,
+    };
+  });
+}
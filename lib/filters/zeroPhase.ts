@@ -0,0 +1,60 @@
+// lib/filters/zeroPhase.ts
+// 零相位平滑：一阶低通先正着滤一遍，再倒着滤一遍。
+// 正向那遍把曲线往后拖，反向那遍往前拖，两边正好抵消，出手这种快速变化的时刻不会被推迟。
+// 要用到“未来”的帧，只能整段识别完再算（离线分析、参考视频）。
+
+import type { PoseKeypoint, PoseResult } from '../pose/poseEngine';
+
+// 时间戳不均匀也没关系，每一步按实际间隔算系数；t 单位秒
+function lowPass(values: number[], ts: number[], cutoffHz: number, reverse: boolean): number[] {
+  const n = values.length;
+  const out = new Array<number>(n);
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  const order = reverse ? Array.from({ length: n }, (_, i) => n - 1 - i) : Array.from({ length: n }, (_, i) => i);
+  let prev = values[order[0]];
+  let tPrev = ts[order[0]];
+  for (const i of order) {
+    const dt = Math.abs(ts[i] - tPrev);
+    const a = dt / (dt + tau);
+    prev = prev + a * (values[i] - prev);
+    out[i] = prev;
+    tPrev = ts[i];
+  }
+  return out;
+}
+
+export function filtfilt(values: number[], ts: number[], cutoffHz: number): number[] {
+  if (values.length < 3 || !(cutoffHz > 0)) return values.slice();
+  return lowPass(lowPass(values, ts, cutoffHz, false), ts, cutoffHz, true);
+}
+
+// 每个关键点单独成一条曲线；有的帧缺这个点、或者置信度低于 threshold，就跳过，按实际时间间隔接着滤。
+// 跳过的点原样带出去，由 gapFill 屏蔽、插值，不让它们的坐标被双向滤波摊到前后的可信帧上。
+// 从平滑前的原始点（raw）算，同一段时序重复调用结果不变
+export function zeroPhaseSmooth(seq: PoseResult[], cutoffHz: number, threshold = 0): PoseResult[] {
+  const source = seq.map((p) => p.raw ?? p.keypoints);
+  const names: string[] = [];
+  for (const kps of source) for (const k of kps) if (!names.includes(k.name)) names.push(k.name);
+
+  const out: Map<string, PoseKeypoint>[] = seq.map(() => new Map());
+  for (const name of names) {
+    const idx: number[] = [];
+    const pts: PoseKeypoint[] = [];
+    source.forEach((kps, i) => {
+      const k = kps.find((x) => x.name === name);
+      if (!k || (k.score ?? 1) < threshold) return;
+      idx.push(i);
+      pts.push(k);
+    });
+    const ts = idx.map((i) => seq[i].ts / 1000);
+    const xs = filtfilt(pts.map((k) => k.x), ts, cutoffHz);
+    const ys = filtfilt(pts.map((k) => k.y), ts, cutoffHz);
+    idx.forEach((i, j) => out[i].set(name, { ...pts[j], x: xs[j], y: ys[j] }));
+  }
+
+  return seq.map((p, i) => ({
+    ...p,
+    keypoints: source[i].map((k) => out[i].get(k.name) ?? { ...k }),
+    raw: source[i],
+  }));
+}
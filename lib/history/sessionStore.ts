@@ -0,0 +1,136 @@
+// lib/history/sessionStore.ts
+// 每次分析完的结果存在浏览器 IndexedDB 里，历史页按周看进步趋势。
+// 只存结果（特征、分数），不存视频。
+
+import type { FeatureVector } from '../score/scorer';
+import type { ShotOutcome } from '../ball/rim';
+import type { ShootingHand } from '../analyze/hand';
+
+const DB_NAME = 'basketball-analyst';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+export type SessionRecord = {
+  id: string;
+  createdAt: string; // ISO 时间
+  clipName: string;
+  total: number;
+  buckets: { name: string; score: number }[];
+  features: FeatureVector;
+  // 打分时用的 CoachConfig.version，换了规则的分数不直接可比
+  configVersion: number;
+  outcome?: ShotOutcome;
+  hand?: ShootingHand;
+  // 一段视频里识别出几次投篮；多于一次时分数、特征都是整组平均
+  shotCount?: number;
+};
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持 IndexedDB'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// 包一层：开库 → 事务 → 请求，结束后关库
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveSession(rec: Omit<SessionRecord, 'id' | 'createdAt'>): Promise<SessionRecord> {
+  const full: SessionRecord = { ...rec, id: newId(), createdAt: new Date().toISOString() };
+  await withStore('readwrite', (s) => s.put(full));
+  return full;
+}
+
+// 按时间从早到晚
+export async function listSessions(): Promise<SessionRecord[]> {
+  const all = await withStore<SessionRecord[]>('readonly', (s) => s.getAll());
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', (s) => s.delete(id));
+}
+
+export async function clearSessions(): Promise<void> {
+  await withStore('readwrite', (s) => s.clear());
+}
+
+// 周一当作一周的开始，返回那天的日期 YYYY-MM-DD
+export function weekKey(iso: string): string {
+  const d = new Date(iso);
+  const day = (d.getDay() + 6) % 7;
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - day);
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+export type WeeklyPoint = {
+  week: string;
+  count: number;
+  total: number;
+  buckets: Record<string, number>;
+};
+
+// 按周求平均，给趋势图用
+export function weeklyTrend(sessions: SessionRecord[]): WeeklyPoint[] {
+  const groups = new Map<string, SessionRecord[]>();
+  for (const s of sessions) {
+    const k = weekKey(s.createdAt);
+    const arr = groups.get(k) ?? [];
+    arr.push(s);
+    groups.set(k, arr);
+  }
+  const out: WeeklyPoint[] = [];
+  for (const [week, arr] of Array.from(groups.entries()).sort((a, b) => a[0].localeCompare(b[0]))) {
+    const buckets: Record<string, number> = {};
+    const counts: Record<string, number> = {};
+    for (const s of arr) {
+      for (const b of s.buckets) {
+        buckets[b.name] = (buckets[b.name] ?? 0) + b.score;
+        counts[b.name] = (counts[b.name] ?? 0) + 1;
+      }
+    }
+    for (const k of Object.keys(buckets)) buckets[k] = Math.round(buckets[k] / counts[k]);
+    out.push({
+      week,
+      count: arr.length,
+      total: Math.round(arr.reduce((acc, s) => acc + s.total, 0) / arr.length),
+      buckets,
+    });
+  }
+  return out;
+}
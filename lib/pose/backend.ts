@@ -0,0 +1,74 @@
+// lib/pose/backend.ts
+// 姿态识别后端：MediaPipe Pose（脚本加载）、TFJS BlazePose、MoveNet。
+// 不管用哪个，输出都统一成 PoseFrame（像素坐标 + landmarks.ts 里的关键点名），
+// 后面的跟踪、平滑、打分不用关心是谁识别的。
+// 某个后端加载失败（CDN 拉不到、没有 WebGL）就按顺序换下一个。
+
+import type { CoachConfig } from '../../config/coach';
+import type { PoseFrame } from './poseEngine';
+import type { SkeletonLayout } from './landmarks';
+import { createMediapipeBackend } from './mediapipeBackend';
+import { createTfjsBackend } from './tfjsBackend';
+
+export type PoseBackendId = 'mediapipe' | 'blazepose-tfjs' | 'movenet';
+export type ModelPreference = CoachConfig['modelPreference'];
+
+export const BACKEND_LABELS: Record<PoseBackendId, string> = {
+  mediapipe: 'MediaPipe Pose',
+  'blazepose-tfjs': 'TFJS BlazePose',
+  movenet: 'MoveNet（多人）',
+};
+
+export const MODEL_PREF_LABELS: Record<ModelPreference, string> = {
+  'blaze-full': 'BlazePose full',
+  'blaze-lite': 'BlazePose lite',
+  movenet: 'MoveNet',
+};
+
+export interface PoseBackend {
+  readonly id: PoseBackendId;
+  readonly layout: SkeletonLayout;
+  // 识别一帧；ts 是这一帧的媒体时间（毫秒），原样放进 PoseFrame
+  estimate(image: HTMLCanvasElement, ts: number): Promise<PoseFrame>;
+  // 清掉模型自己的跨帧状态（MediaPipe 视频模式的 ROI、TFJS 检测器的跟踪），重跑同一段视频前调用
+  reset(): void;
+  dispose(): void;
+}
+
+const FACTORIES: Record<PoseBackendId, (pref: ModelPreference) => Promise<PoseBackend>> = {
+  mediapipe: createMediapipeBackend,
+  'blazepose-tfjs': (pref) => createTfjsBackend('blazepose', pref),
+  movenet: (pref) => createTfjsBackend('movenet', pref),
+};
+
+// 都加载不了时按这个顺序往下试：BlazePose 33 点比 MoveNet 17 点多了手指、脚跟，能打的项更多
+const FALLBACK_ORDER: PoseBackendId[] = ['mediapipe', 'blazepose-tfjs', 'movenet'];
+
+// 模型偏好对应的首选后端；blaze-full / blaze-lite 只是同一个后端的大小模型
+export function preferredBackend(pref: ModelPreference): PoseBackendId {
+  return pref === 'movenet' ? 'movenet' : 'mediapipe';
+}
+
+export type BackendLoadResult = {
+  backend: PoseBackend | null;
+  // 加载失败的后端和原因，界面上提示“已回退”
+  failed: { id: PoseBackendId; error: string }[];
+};
+
+// choice 为 auto 时跟着模型偏好走
+export async function loadPoseBackend(
+  choice: 'auto' | PoseBackendId,
+  pref: ModelPreference
+): Promise<BackendLoadResult> {
+  const first = choice === 'auto' ? preferredBackend(pref) : choice;
+  const order = [first, ...FALLBACK_ORDER.filter((id) => id !== first)];
+  const failed: BackendLoadResult['failed'] = [];
+  for (const id of order) {
+    try {
+      return { backend: await FACTORIES[id](pref), failed };
+    } catch (err) {
+      failed.push({ id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { backend: null, failed };
+}
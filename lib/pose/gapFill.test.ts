@@ -0,0 +1,52 @@
+// lib/pose/gapFill.test.ts
+import { describe, expect, it } from 'vitest';
+import { fillKeypointGaps, gapsIn } from './gapFill';
+import type { PoseKeypoint, PoseResult } from './poseEngine';
+
+const OPTS = { threshold: 0.35, maxGapMs: 200 };
+
+const kp = (name: string, x: number, score = 0.9): PoseKeypoint => ({ name, x, y: x * 2, score });
+const frame = (ts: number, keypoints: PoseKeypoint[]): PoseResult => ({ id: 'p1', score: 1, ts, keypoints });
+
+describe('fillKeypointGaps', () => {
+  it('短时间置信度低的点按时间线性插值', () => {
+    const seq = [frame(0, [kp('a', 0)]), frame(50, [kp('a', 999, 0.1)]), frame(100, [kp('a', 10)])];
+    const { seq: out, gaps, filled } = fillKeypointGaps(seq, OPTS);
+    expect(filled).toBe(1);
+    expect(gaps).toEqual([]);
+    expect(out[1].keypoints).toEqual([{ name: 'a', x: 5, y: 10, z: undefined, score: 0.9, interpolated: true }]);
+  });
+
+  it('后端那一帧干脆没给的点也补上', () => {
+    const seq = [frame(0, [kp('a', 0), kp('b', 0)]), frame(33, [kp('a', 1)]), frame(66, [kp('a', 2), kp('b', 6)])];
+    const { seq: out, filled } = fillKeypointGaps(seq, OPTS);
+    expect(filled).toBe(1);
+    expect(out[1].keypoints.map((k) => k.name)).toEqual(['a', 'b']);
+    expect(out[1].keypoints[1]).toMatchObject({ name: 'b', x: 3, interpolated: true });
+  });
+
+  it('中间断太久不补，记成一段丢失', () => {
+    const seq = [0, 100, 200, 300, 400].map((ts, i) => frame(ts, [kp('a', i, i === 0 || i === 4 ? 0.9 : 0.1)]));
+    const { seq: out, gaps, filled } = fillKeypointGaps(seq, OPTS);
+    expect(filled).toBe(0);
+    expect(gaps).toEqual([{ name: 'a', startIdx: 1, endIdx: 3, startTs: 100, endTs: 300 }]);
+    expect(out[2].keypoints).toEqual([]);
+    expect(gapsIn(gaps, ['a'], 3, 4)).toHaveLength(1);
+    expect(gapsIn(gaps, ['a'], 4, 4)).toHaveLength(0);
+    expect(gapsIn(gaps, ['b'], 0, 4)).toHaveLength(0);
+  });
+
+  it('开头结尾缺几帧不算丢失，够长了才记', () => {
+    const short = [frame(0, [kp('a', 0, 0.1)]), frame(50, [kp('a', 1)]), frame(100, [kp('a', 2)])];
+    expect(fillKeypointGaps(short, OPTS).gaps).toEqual([]);
+    const long = [0, 150, 300, 450].map((ts, i) => frame(ts, [kp('a', i, i < 3 ? 0.1 : 0.9)]));
+    expect(fillKeypointGaps(long, OPTS).gaps).toEqual([{ name: 'a', startIdx: 0, endIdx: 2, startTs: 0, endTs: 300 }]);
+  });
+
+  it('整段都看不到的点不算丢失', () => {
+    const seq = [0, 100, 200, 300].map((ts) => frame(ts, [kp('a', 1), kp('b', 1, 0.1)]));
+    const { seq: out, gaps } = fillKeypointGaps(seq, OPTS);
+    expect(gaps).toEqual([]);
+    expect(out.every((p) => p.keypoints.map((k) => k.name).join() === 'a')).toBe(true);
+  });
+});
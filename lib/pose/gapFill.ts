@@ -0,0 +1,101 @@
+// lib/pose/gapFill.ts
+// 关键点置信度门限 + 补帧。
+// 模型对被挡住、出画、糊掉的点也会给坐标，只是 visibility 很低；这种点直接拿来算角度会把分数带偏。
+// 1) 每帧低于门限的点先屏蔽掉；
+// 2) 前后都有可信帧、中间只断了一小会儿的，按时间线性插值补上；
+//    后端那几帧干脆没给这个点（不只是置信度低）也一样补；
+// 3) 断得太久的不补，记成一段“丢失”，依赖这个点的指标由打分那边标成不可靠。
+
+import type { PoseKeypoint, PoseResult } from './poseEngine';
+
+export type KeypointGap = {
+  name: string;
+  // 丢失的帧范围（含两端），下标相对传进来的时序
+  startIdx: number;
+  endIdx: number;
+  startTs: number;
+  endTs: number;
+};
+
+export type GapFillOpts = {
+  // 低于这个置信度就当没检测到
+  threshold: number;
+  // 前后两个可信帧之间不超过这么久（毫秒）才插值
+  maxGapMs: number;
+};
+
+export type GapFillResult = {
+  seq: PoseResult[];
+  gaps: KeypointGap[];
+  // 插值补上的点数，给界面提示用
+  filled: number;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export function fillKeypointGaps(input: PoseResult[], opts: GapFillOpts): GapFillResult {
+  const n = input.length;
+  // 每帧按名字建索引，后面改起来方便
+  const frames = input.map((p) => new Map(p.keypoints.map((k) => [k.name, k])));
+  // 整段出现过的点名取并集，某几帧缺了的名字也要检查
+  const names: string[] = [];
+  for (const p of input) for (const k of p.keypoints) if (!names.includes(k.name)) names.push(k.name);
+
+  const out: Map<string, PoseKeypoint>[] = frames.map(() => new Map());
+  const gaps: KeypointGap[] = [];
+  let filled = 0;
+
+  for (const name of names) {
+    const good = frames.map((f) => {
+      const k = f.get(name);
+      return !!k && (k.score ?? 1) >= opts.threshold;
+    });
+    // 整段都没有可信的点，就是这个机位看不到，不算丢失
+    if (!good.includes(true)) continue;
+
+    let i = 0;
+    while (i < n) {
+      if (good[i]) {
+        out[i].set(name, frames[i].get(name)!);
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < n && !good[j]) j++;
+      // [i, j-1] 这段不可信；i-1 和 j 是两头的可信帧（可能不存在）
+      const before = i > 0 ? frames[i - 1].get(name)! : null;
+      const after = j < n ? frames[j].get(name)! : null;
+      const spanMs = before && after ? input[j].ts - input[i - 1].ts : Infinity;
+      if (before && after && spanMs <= opts.maxGapMs) {
+        for (let k = i; k < j; k++) {
+          const t = (input[k].ts - input[i - 1].ts) / (spanMs || 1);
+          out[k].set(name, {
+            name,
+            x: lerp(before.x, after.x, t),
+            y: lerp(before.y, after.y, t),
+            z: before.z !== undefined && after.z !== undefined ? lerp(before.z, after.z, t) : undefined,
+            score: Math.min(before.score ?? 1, after.score ?? 1),
+            interpolated: true,
+          });
+          filled++;
+        }
+      } else if ((before && after) || input[j - 1].ts - input[i].ts > opts.maxGapMs) {
+        // 中间断太久的都记；开头/结尾缺几帧很常见，够长了才记
+        gaps.push({ name, startIdx: i, endIdx: j - 1, startTs: input[i].ts, endTs: input[j - 1].ts });
+      }
+      i = j;
+    }
+  }
+
+  // 按整段里出现过的所有点名输出（顺序是第一次出现的顺序），这一帧原来没有、补出来的点也带上
+  const seq = input.map((p, idx) => ({
+    ...p,
+    keypoints: names.map((name) => out[idx].get(name)).filter((k): k is PoseKeypoint => !!k),
+  }));
+  return { seq, gaps, filled };
+}
+
+// 某几个点在 [from, to] 帧里有没有长时间丢失
+export function gapsIn(gaps: KeypointGap[], names: string[], from: number, to: number): KeypointGap[] {
+  return gaps.filter((g) => names.includes(g.name) && g.startIdx <= to && g.endIdx >= from);
+}
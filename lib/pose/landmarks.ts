@@ -0,0 +1,124 @@
+// lib/pose/landmarks.ts
+// 各个姿态模型的关键点下标 -> 统一名字
+// PoseKeypoint.name 全项目都用这里的名字（left_knee / right_wrist ...），
+// 打分、出手检测、骨架连线都靠名字查点，所以模型输出进来第一步就要过这一层。
+
+export type SkeletonLayout = 'blazepose33' | 'coco17';
+
+// BlazePose（Mediapipe Pose / TFJS BlazePose）33 点，顺序和官方一致
+export const BLAZEPOSE_33 = [
+  'nose',
+  'left_eye_inner',
+  'left_eye',
+  'left_eye_outer',
+  'right_eye_inner',
+  'right_eye',
+  'right_eye_outer',
+  'left_ear',
+  'right_ear',
+  'mouth_left',
+  'mouth_right',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_pinky',
+  'right_pinky',
+  'left_index',
+  'right_index',
+  'left_thumb',
+  'right_thumb',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+  'left_heel',
+  'right_heel',
+  'left_foot_index',
+  'right_foot_index',
+] as const;
+
+// MoveNet / COCO 17 点
+export const COCO_17 = [
+  'nose',
+  'left_eye',
+  'right_eye',
+  'left_ear',
+  'right_ear',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+] as const;
+
+export type LandmarkName = (typeof BLAZEPOSE_33)[number];
+
+const LAYOUT_NAMES: Record<SkeletonLayout, readonly string[]> = {
+  blazepose33: BLAZEPOSE_33,
+  coco17: COCO_17,
+};
+
+// 每种布局“模型本身就没有”的点，打分时用来区分“没识别到”和“模型不支持”
+export const LAYOUT_MISSING: Record<SkeletonLayout, readonly string[]> = {
+  blazepose33: [],
+  coco17: BLAZEPOSE_33.filter((n) => !(COCO_17 as readonly string[]).includes(n)),
+};
+
+export function landmarkName(layout: SkeletonLayout, idx: number): string {
+  return LAYOUT_NAMES[layout][idx] ?? `kp_${idx}`;
+}
+
+export function layoutHasJoint(layout: SkeletonLayout, name: string): boolean {
+  return LAYOUT_NAMES[layout].includes(name);
+}
+
+// 根据点数猜布局，后端没告诉我们的时候用
+export function guessLayout(count: number): SkeletonLayout {
+  return count >= BLAZEPOSE_33.length ? 'blazepose33' : 'coco17';
+}
+
+// 缺点时给前端的说明文字
+export function missingLabel(layout: SkeletonLayout | undefined, names: string[]): string {
+  if (layout && names.some((n) => !layoutHasJoint(layout, n))) {
+    return '模型无此点';
+  }
+  return '未检测';
+}
+
+const PART_LABELS: Record<string, string> = {
+  nose: '鼻子',
+  eye: '眼',
+  ear: '耳',
+  shoulder: '肩',
+  elbow: '肘',
+  wrist: '手腕',
+  index: '食指',
+  pinky: '小指',
+  thumb: '拇指',
+  hip: '髋',
+  knee: '膝',
+  ankle: '脚踝',
+  heel: '脚跟',
+  foot_index: '脚尖',
+};
+
+// left_wrist → 左手腕，给提示文字用；不认识的原样返回
+export function jointLabel(name: string): string {
+  const m = /^(left|right)_(.+)$/.exec(name);
+  const part = m ? m[2] : name;
+  const label = PART_LABELS[part];
+  if (!label) return name;
+  return m ? `${m[1] === 'left' ? '左' : '右'}${label}` : label;
+}
@@ -0,0 +1,137 @@
+// lib/pose/mediapipeBackend.ts
+// MediaPipe Pose 后端：官方 pose.js 不走 npm 打包，按顺序试本地 public 目录和 CDN 用 script 标签加载。
+// 输出 33 点 BlazePose，坐标是 0~1，这里换成像素。
+
+import type { PoseBackend, ModelPreference } from './backend';
+import { landmarkName } from './landmarks';
+
+declare global {
+  interface Window {
+    Pose?: any;
+    pose?: any;
+    __mpPosePromise?: Promise<any>;
+  }
+}
+
+const MP_LOCAL_BASES = ['/mp/pose', '/mediapipe/pose', '/vendor/mediapipe/pose'];
+const MP_CDN_BASES = [
+  'https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.5.1675469404',
+  'https://unpkg.com/@mediapipe/pose@0.5.1675469404',
+];
+
+async function loadScriptOnce(src: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const existed = document.querySelector(`script[data-mp="${src}"]`);
+    if (existed) {
+      existed.addEventListener('load', () => resolve());
+      existed.addEventListener('error', () => reject(new Error('fail')));
+      return;
+    }
+    const s = document.createElement('script');
+    s.src = src;
+    s.async = true;
+    s.dataset.mp = src;
+    s.onload = () => resolve();
+    s.onerror = () => reject(new Error('fail'));
+    document.head.appendChild(s);
+  });
+}
+
+// 找到能用的 mediapipe Pose 构造函数
+async function ensureMediapipePose(): Promise<any | null> {
+  if (typeof window === 'undefined') return null;
+  if (window.Pose || window.pose) {
+    return window.Pose || window.pose;
+  }
+  if (window.__mpPosePromise) {
+    return window.__mpPosePromise;
+  }
+
+  window.__mpPosePromise = (async () => {
+    const tryBases = [...MP_LOCAL_BASES, ...MP_CDN_BASES];
+    for (const base of tryBases) {
+      try {
+        await loadScriptOnce(`${base}/pose.js`);
+        const Ctor = (window as any).Pose || (window as any).pose;
+        if (Ctor) {
+          return (file: string) => `${base}/${file}`;
+        }
+      } catch {
+        // 下一个
+      }
+    }
+    return null;
+  })();
+
+  const locateFile = await window.__mpPosePromise;
+  if (!locateFile) return null;
+
+  // 这里再返回真正的 Pose 类
+  const Ctor = (window as any).Pose || (window as any).pose;
+  if (!Ctor) return null;
+  // 我们需要把 locateFile 固定进去
+  return class WrappedPose extends Ctor {
+    constructor(opts: any = {}) {
+      super({
+        ...opts,
+        locateFile,
+      });
+    }
+  };
+}
+
+export async function createMediapipeBackend(pref: ModelPreference): Promise<PoseBackend> {
+  const PoseCtor = await ensureMediapipePose();
+  if (!PoseCtor) throw new Error('本地和 CDN 都没能加载 pose.js');
+  const pose = new PoseCtor({
+    // MediaPipe 的复杂度 0 = lite、1 = full、2 = heavy；和 TFJS 的 modelType 对齐，换后端不换模型大小
+    modelComplexity: pref === 'blaze-lite' ? 0 : 1,
+    enableSegmentation: false,
+    smoothLandmarks: false,
+  });
+  let latest: any = null;
+  pose.onResults((res: any) => {
+    latest = res;
+  });
+  // 先把模型文件拉下来，拉不到在这里就失败，好换下一个后端
+  await pose.initialize();
+
+  return {
+    id: 'mediapipe',
+    layout: 'blazepose33',
+    async estimate(image, ts) {
+      latest = null;
+      // send 会等 onResults 回调完
+      await pose.send({ image });
+      const landmarks: any[] | undefined = latest?.poseLandmarks;
+      return {
+        // mediapipe 只出一个人
+        persons: landmarks
+          ? [
+              {
+                id: '0',
+                keypoints: landmarks.map((lm: any, idx: number) => ({
+                  // 下标 -> left_knee 这类统一名字
+                  name: landmarkName('blazepose33', idx),
+                  // mediapipe 是 0~1，要转成像素
+                  x: lm.x * image.width,
+                  y: lm.y * image.height,
+                  z: lm.z,
+                  score: lm.visibility ?? 1,
+                })),
+              },
+            ]
+          : [],
+        ts,
+        layout: 'blazepose33',
+      };
+    },
+    reset() {
+      pose.reset();
+      latest = null;
+    },
+    dispose() {
+      pose.close();
+    },
+  };
+}
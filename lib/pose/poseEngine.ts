@@ -1,11 +1,17 @@
 // lib/pose/poseEngine.ts
 // 作用：
 // 1. 外面塞进来一帧“可能有多个人”的姿态
-// 2. 我们挑出那个最像前景投篮的人
-// 3. 给每个关键点做 OneEuro 平滑
-// 4. 统一成我们前端画布好画的格式
+// 2. 跨帧跟踪，每个人一个稳定的 ID（见 tracker.ts）
+// 3. 挑出那个最像前景投篮的人，挑中了就一直跟着这个人；用户点选锁定的优先
+// 4. 每个人、每个关键点各自做平滑（OneEuro 或卡尔曼，见 lib/filters/smoothing.ts）
+// 5. 统一成我们前端画布好画的格式
 
-import { OneEuro2D, type OneEuroConfig, makeDefaultOneEuro } from './oneEuro2d';
+import type { SmoothConfig } from '../../config/coach';
+import { DEFAULT_ANALYZE_CONFIG } from '../analyze/config';
+import { makeDefaultOneEuro } from '../filters/oneEuro';
+import { createPointFilter, type PointFilter } from '../filters/smoothing';
+import type { SkeletonLayout } from './landmarks';
+import { PersonTracker } from './tracker';
 
 export type PoseKeypoint = {
   name: string;
@@ -13,6 +19,8 @@ export type PoseKeypoint = {
   y: number;
   z?: number;
   score?: number;
+  // 置信度不够被屏蔽后，用前后帧插值补出来的点
+  interpolated?: boolean;
 };
 
 export type RawPerson = {
@@ -24,31 +32,47 @@ export type RawPerson = {
 export type PoseFrame = {
   persons: RawPerson[];
   ts: number; // ms
+  // 关键点来自哪种模型布局，见 landmarks.ts
+  layout?: SkeletonLayout;
 };
 
 export type PoseResult = {
   id: string;
   keypoints: PoseKeypoint[];
   score: number;
+  ts: number; // ms，和 PoseFrame.ts 一致，时序分析要用
+  layout?: SkeletonLayout;
+  // 平滑前的关键点，调试曲线和整段零相位平滑要用
+  raw?: PoseKeypoint[];
 };
 
 type PoseEngineOpts = {
-  smooth?: OneEuroConfig;
+  smooth?: SmoothConfig;
   minScore?: number;
+  // 关键点置信度门限：低于它的点不喂给滤波器，原样带出去，由 gapFill 屏蔽、插值
+  pointThreshold?: number;
 };
 
 export class PoseEngine {
   private readonly opts: Required<PoseEngineOpts>;
-  private readonly filters = new Map<string, OneEuro2D>();
+  private readonly tracker = new PersonTracker();
+  // 跟踪 ID → 关键点名 → 滤波器；每个人的平滑状态互不干扰
+  private readonly filters = new Map<string, Map<string, PointFilter>>();
+  // 自动挑中的人，挑中后只要还在画面里就不换
+  private autoId: string | null = null;
+  // 用户点选锁定的人
+  private lockedId: string | null = null;
+  private last: PoseResult[] = [];
 
   constructor(opts: PoseEngineOpts = {}) {
     this.opts = {
       smooth: opts.smooth ?? makeDefaultOneEuro(),
       minScore: opts.minScore ?? 0.2,
+      pointThreshold: opts.pointThreshold ?? DEFAULT_ANALYZE_CONFIG.poseThreshold,
     };
   }
 
-  private pickMainPerson(persons: RawPerson[]): RawPerson | null {
+  private pickMainPerson<T extends RawPerson>(persons: T[]): T | null {
     if (!persons.length) return null;
     // 1. 按 score 排
     const withScore = [...persons].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
@@ -70,34 +94,81 @@ export class PoseEngine {
     return candidate ?? best;
   }
 
-  private getFilter(name: string) {
-    let f = this.filters.get(name);
+  private getFilter(id: string, name: string) {
+    let person = this.filters.get(id);
+    if (!person) {
+      person = new Map();
+      this.filters.set(id, person);
+    }
+    let f = person.get(name);
     if (!f) {
-      f = new OneEuro2D(this.opts.smooth);
-      this.filters.set(name, f);
+      f = createPointFilter(this.opts.smooth);
+      person.set(name, f);
     }
     return f;
   }
 
+  // 重新分析同一段视频前清掉平滑和跟踪状态，保证结果可复现
+  // 锁定保留：离线重跑时 ID 的编法一样，锁的还是同一个人
+  reset() {
+    this.filters.clear();
+    this.tracker.reset();
+    this.autoId = null;
+    this.last = [];
+  }
+
+  // 锁定某个人，之后只返回这个人；传 null 解除，回到自动挑人
+  lock(id: string | null) {
+    this.lockedId = id;
+  }
+
+  get locked(): string | null {
+    return this.lockedId;
+  }
+
+  // 自动挑中的那个人（锁定时也照样在算）
+  get autoPersonId(): string | null {
+    return this.autoId;
+  }
+
+  // 上一帧画面里跟踪到的所有人，已平滑
+  get tracked(): PoseResult[] {
+    return this.last;
+  }
+
   process(frame: PoseFrame): PoseResult | null {
-    const p = this.pickMainPerson(frame.persons);
-    if (!p) return null;
+    const matched = this.tracker.update(frame.persons, frame.ts);
+    // 消失的人把滤波器也删掉，下次再出现是新 ID
+    const alive = this.tracker.ids();
+    for (const id of Array.from(this.filters.keys())) {
+      if (!alive.includes(id)) this.filters.delete(id);
+    }
 
     const t = frame.ts / 1000; // 内部用秒
-    const smoothed: PoseKeypoint[] = p.keypoints.map((kp) => {
-      const f = this.getFilter(kp.name);
-      const { x, y } = f.filter({ x: kp.x, y: kp.y }, t);
-      return {
-        ...kp,
-        x,
-        y,
-      };
-    });
-
-    return {
-      id: p.id ?? 'main',
-      keypoints: smoothed,
-      score: p.score ?? 1,
-    };
+    this.last = matched.map(({ id, person }) => ({
+      id,
+      keypoints: person.keypoints.map((kp) => {
+        // 不可信的点要是也更新滤波器，乱跳的坐标会被带进前后可信帧里
+        if ((kp.score ?? 1) < this.opts.pointThreshold) return { ...kp };
+        const { x, y } = this.getFilter(id, kp.name).filter({ x: kp.x, y: kp.y }, t);
+        return {
+          ...kp,
+          x,
+          y,
+        };
+      }),
+      score: person.score ?? 1,
+      ts: frame.ts,
+      layout: frame.layout,
+      raw: person.keypoints,
+    }));
+
+    if (!this.autoId || !this.last.some((p) => p.id === this.autoId)) {
+      const main = this.pickMainPerson(matched.map(({ id, person }) => ({ ...person, id })));
+      this.autoId = main?.id ?? null;
+    }
+    // 锁定的人这一帧不在画面里就返回 null，不去跳到别人身上
+    const want = this.lockedId ?? this.autoId;
+    return this.last.find((p) => p.id === want) ?? null;
   }
 }
@@ -10,7 +10,7 @@ export type Connection = {
   color: string;
 };
 
-// 这个名字要和我们在 VideoAnalyzer 里生成的 name 一致（Mediapipe 33 点）
+// 名字来自 landmarks.ts 的统一命名（BlazePose 33 点；COCO 17 点没有手指/脚跟，画的时候会自动跳过）
 export const ALL_CONNECTIONS: Connection[] = [
   // 躯干
   { pair: ['left_shoulder', 'right_shoulder'], color: TORSO_COLOR },
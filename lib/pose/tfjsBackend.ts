@@ -0,0 +1,76 @@
+// lib/pose/tfjsBackend.ts
+// 基于 @tensorflow-models/pose-detection 的两个后端：TFJS BlazePose（单人 33 点）和 MoveNet（多人 17 点）。
+// 模型和 tfjs 都按需动态加载，不进首屏包；模型文件默认从 tfhub 拉，拉不到会抛错，由 backend.ts 回退。
+
+import type { PoseBackend, ModelPreference } from './backend';
+import { landmarkName, type SkeletonLayout } from './landmarks';
+
+// MoveNet 多人模型最多识别这么多人（模型本身上限是 6）
+const MAX_PERSONS = 6;
+
+let tfReady: Promise<void> | null = null;
+
+function ensureTf(): Promise<void> {
+  if (!tfReady) {
+    tfReady = (async () => {
+      const tf = await import('@tensorflow/tfjs-core');
+      await import('@tensorflow/tfjs-backend-webgl');
+      if (!(await tf.setBackend('webgl'))) throw new Error('浏览器不支持 WebGL');
+      await tf.ready();
+    })().catch((err) => {
+      // 失败了下次还能重试
+      tfReady = null;
+      throw err;
+    });
+  }
+  return tfReady;
+}
+
+export async function createTfjsBackend(kind: 'blazepose' | 'movenet', pref: ModelPreference): Promise<PoseBackend> {
+  await ensureTf();
+  const pd = await import('@tensorflow-models/pose-detection');
+  // 平滑、跟踪都由 PoseEngine 统一做，模型自带的关掉
+  const detector =
+    kind === 'movenet'
+      ? await pd.createDetector(pd.SupportedModels.MoveNet, {
+          modelType: pd.movenet.modelType.MULTIPOSE_LIGHTNING,
+          enableSmoothing: false,
+          enableTracking: false,
+        })
+      : await pd.createDetector(pd.SupportedModels.BlazePose, {
+          runtime: 'tfjs',
+          modelType: pref === 'blaze-lite' ? 'lite' : 'full',
+          enableSmoothing: false,
+        });
+  const layout: SkeletonLayout = kind === 'movenet' ? 'coco17' : 'blazepose33';
+
+  return {
+    id: kind === 'movenet' ? 'movenet' : 'blazepose-tfjs',
+    layout,
+    async estimate(image, ts) {
+      const poses = await detector.estimatePoses(image, { maxPoses: kind === 'movenet' ? MAX_PERSONS : 1 }, ts);
+      return {
+        persons: poses.map((p, i) => ({
+          id: String(p.id ?? i),
+          score: p.score,
+          // 已经是像素坐标
+          keypoints: p.keypoints.map((k, idx) => ({
+            name: landmarkName(layout, idx),
+            x: k.x,
+            y: k.y,
+            z: k.z,
+            score: k.score ?? 1,
+          })),
+        })),
+        ts,
+        layout,
+      };
+    },
+    reset() {
+      detector.reset();
+    },
+    dispose() {
+      detector.dispose();
+    },
+  };
+}
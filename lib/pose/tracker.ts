@@ -0,0 +1,139 @@
+// lib/pose/tracker.ts
+// 多人跟踪：同一个人在前后帧里保持同一个 ID。
+// 体育馆里画面经常有好几个人，每帧都重新挑“分数最高的人”，骨架就会一会儿跳到抢篮板的、一会儿跳到队友身上。
+// 这里按外接框重叠度（IoU）把这一帧的人和上一帧的人一一对上，对不上的开新 ID，太久没出现的删掉。
+
+import type { PoseKeypoint, PoseResult, RawPerson } from './poseEngine';
+
+export type Box = { x0: number; y0: number; x1: number; y1: number };
+
+type Track = {
+  id: string;
+  box: Box;
+  lastTs: number;
+};
+
+export type TrackerOpts = {
+  // 外接框重叠度低于这个就不算同一个人
+  minIou?: number;
+  // 这么久（毫秒）没出现就删掉这个 ID
+  maxAgeMs?: number;
+  // 算外接框时忽略的低置信度点
+  minKpScore?: number;
+};
+
+export function boxOf(keypoints: PoseKeypoint[], minScore = 0.3): Box | null {
+  let box: Box | null = null;
+  for (const k of keypoints) {
+    if ((k.score ?? 1) < minScore) continue;
+    if (!box) {
+      box = { x0: k.x, y0: k.y, x1: k.x, y1: k.y };
+    } else {
+      box.x0 = Math.min(box.x0, k.x);
+      box.y0 = Math.min(box.y0, k.y);
+      box.x1 = Math.max(box.x1, k.x);
+      box.y1 = Math.max(box.y1, k.y);
+    }
+  }
+  return box;
+}
+
+const area = (b: Box) => Math.max(0, b.x1 - b.x0) * Math.max(0, b.y1 - b.y0);
+
+function iou(a: Box, b: Box): number {
+  const inter = area({
+    x0: Math.max(a.x0, b.x0),
+    y0: Math.max(a.y0, b.y0),
+    x1: Math.min(a.x1, b.x1),
+    y1: Math.min(a.y1, b.y1),
+  });
+  const union = area(a) + area(b) - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+export class PersonTracker {
+  private readonly opts: Required<TrackerOpts>;
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  constructor(opts: TrackerOpts = {}) {
+    this.opts = {
+      minIou: opts.minIou ?? 0.2,
+      maxAgeMs: opts.maxAgeMs ?? 1000,
+      minKpScore: opts.minKpScore ?? 0.3,
+    };
+  }
+
+  // 重新分析前清掉；ID 从 p1 重新编，离线重跑同一段视频 ID 不变
+  reset() {
+    this.tracks = [];
+    this.nextId = 1;
+  }
+
+  // 还活着的 ID
+  ids(): string[] {
+    return this.tracks.map((t) => t.id);
+  }
+
+  update(persons: RawPerson[], ts: number): { id: string; person: RawPerson }[] {
+    const boxes = persons.map((p) => boxOf(p.keypoints, this.opts.minKpScore));
+
+    // 贪心匹配：所有 (人, 轨迹) 按 IoU 从大到小，各自只用一次
+    const pairs: { pi: number; ti: number; iou: number }[] = [];
+    persons.forEach((_, pi) => {
+      const b = boxes[pi];
+      if (!b) return;
+      this.tracks.forEach((t, ti) => {
+        const v = iou(b, t.box);
+        if (v >= this.opts.minIou) pairs.push({ pi, ti, iou: v });
+      });
+    });
+    pairs.sort((a, b) => b.iou - a.iou);
+    const personTrack = new Map<number, number>();
+    const usedTracks = new Set<number>();
+    for (const { pi, ti } of pairs) {
+      if (personTrack.has(pi) || usedTracks.has(ti)) continue;
+      personTrack.set(pi, ti);
+      usedTracks.add(ti);
+    }
+
+    const out: { id: string; person: RawPerson }[] = [];
+    persons.forEach((person, pi) => {
+      const b = boxes[pi];
+      if (!b) return;
+      const ti = personTrack.get(pi);
+      let track: Track;
+      if (ti !== undefined) {
+        track = this.tracks[ti];
+        track.box = b;
+        track.lastTs = ts;
+      } else {
+        track = { id: `p${this.nextId++}`, box: b, lastTs: ts };
+        this.tracks.push(track);
+      }
+      out.push({ id: track.id, person });
+    });
+
+    this.tracks = this.tracks.filter((t) => ts - t.lastTs <= this.opts.maxAgeMs);
+    return out;
+  }
+}
+
+// 点击位置落在谁的外接框里；框重叠时取小的那个（离镜头远、被框住的人）
+export function personAt(persons: PoseResult[], x: number, y: number, pad = 0.1): PoseResult | null {
+  let best: PoseResult | null = null;
+  let bestArea = Infinity;
+  for (const p of persons) {
+    const b = boxOf(p.keypoints);
+    if (!b) continue;
+    const px = (b.x1 - b.x0) * pad;
+    const py = (b.y1 - b.y0) * pad;
+    if (x < b.x0 - px || x > b.x1 + px || y < b.y0 - py || y > b.y1 + py) continue;
+    const a = area(b);
+    if (a < bestArea) {
+      best = p;
+      bestArea = a;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,60 @@
+// lib/pose/videoPoses.ts
+// 对一个视频文件整段跑一遍姿态识别，拿到 PoseResult 时序（参考动作对比用）。
+// 跟分析页的离线模式一样按固定采样率逐帧 seek，平滑参数也一样，两边的数据可以直接比。
+
+import { PoseEngine, type PoseResult } from './poseEngine';
+import type { SmoothConfig } from '../../config/coach';
+import { smoothOffline } from '../filters/smoothing';
+import type { PoseBackend } from './backend';
+import { sampleFrames, type SampleProgress } from '../video/frameSampler';
+
+export type VideoPoseOpts = {
+  fps: number;
+  smooth?: SmoothConfig;
+  // 关键点置信度门限，和分析页一致
+  poseThreshold?: number;
+  onProgress?: (p: SampleProgress) => void;
+  shouldStop?: () => boolean;
+};
+
+function loadVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const v = document.createElement('video');
+    v.muted = true;
+    v.playsInline = true;
+    v.preload = 'auto';
+    v.onloadeddata = () => resolve(v);
+    v.onerror = () => reject(new Error('视频无法解码'));
+    v.src = url;
+  });
+}
+
+export async function extractVideoPoses(file: Blob, backend: PoseBackend, opts: VideoPoseOpts): Promise<PoseResult[]> {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+    const off = document.createElement('canvas');
+    off.width = video.videoWidth;
+    off.height = video.videoHeight;
+    const ctx = off.getContext('2d');
+    if (!ctx) throw new Error('无法创建画布');
+
+    // 后端上一次识别留下的跟踪状态清掉，同一段视频每次识别结果一样
+    backend.reset();
+    const engine = new PoseEngine({ smooth: opts.smooth, pointThreshold: opts.poseThreshold });
+    const seq: PoseResult[] = [];
+
+    await sampleFrames(
+      video,
+      async (mediaTsMs) => {
+        ctx.drawImage(video, 0, 0, off.width, off.height);
+        const person = engine.process(await backend.estimate(off, mediaTsMs));
+        if (person) seq.push(person);
+      },
+      { fps: opts.fps, onProgress: opts.onProgress, shouldStop: opts.shouldStop }
+    );
+    return opts.smooth ? smoothOffline(seq, opts.smooth, opts.poseThreshold) : seq;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
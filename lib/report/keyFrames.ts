@@ -0,0 +1,73 @@
+// lib/report/keyFrames.ts
+// 报告用的关键帧截图：下蹲最低点、出手、随挥结束，各 seek 过去截一张并画上骨架和关节角度。
+
+import type { PoseResult } from '../pose/poseEngine';
+import type { ShotPhase, ShotPhaseName } from '../analyze/phases';
+import { PHASE_LABELS } from '../analyze/phases';
+import { jointAngles } from '../analyze/kinematics';
+import type { ShootingHand } from '../analyze/hand';
+import { seekTo } from '../video/frameSampler';
+import { drawAngleLabels, drawSkeleton } from '../video/overlay';
+import type { ReportKeyFrame } from './report';
+
+// 每个关键帧取对应阶段的哪一头
+const KEY_FRAMES: { phase: ShotPhaseName; at: 'start' | 'end'; label: string }[] = [
+  { phase: 'dip', at: 'end', label: `${PHASE_LABELS.dip}最低点` },
+  { phase: 'release', at: 'start', label: PHASE_LABELS.release },
+  { phase: 'follow', at: 'end', label: `${PHASE_LABELS.follow}结束` },
+];
+
+export type KeyFrameOpts = {
+  // 截图最长边，控制报告体积
+  maxSize?: number;
+  quality?: number;
+};
+
+// phases 的下标是相对 seq 的；截完把视频放回原来的位置
+export async function captureKeyFrames(
+  video: HTMLVideoElement,
+  seq: PoseResult[],
+  phases: ShotPhase[],
+  hand: ShootingHand | null,
+  opts: KeyFrameOpts = {}
+): Promise<ReportKeyFrame[]> {
+  const maxSize = opts.maxSize ?? 720;
+  const scale = Math.min(1, maxSize / Math.max(video.videoWidth, video.videoHeight, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  const resumeAt = video.currentTime;
+  video.pause();
+  const out: ReportKeyFrame[] = [];
+  try {
+    for (const kf of KEY_FRAMES) {
+      const ph = phases.find((p) => p.name === kf.phase);
+      const pose = ph ? seq[kf.at === 'start' ? ph.startIdx : ph.endIdx] : undefined;
+      if (!pose) continue;
+      await seekTo(video, pose.ts / 1000);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      // 关键点是原视频像素，换到截图尺寸再画
+      const kps = pose.keypoints.map((k) => ({ ...k, x: k.x * scale, y: k.y * scale }));
+      drawSkeleton(ctx, kps, hand);
+      const a = jointAngles(pose);
+      drawAngleLabels(ctx, kps, [
+        { joint: 'left_knee', value: a.kneeL },
+        { joint: 'right_knee', value: a.kneeR },
+        { joint: 'left_elbow', value: a.elbowL },
+        { joint: 'right_elbow', value: a.elbowR },
+      ]);
+      out.push({
+        phase: kf.phase,
+        label: kf.label,
+        ts: pose.ts,
+        image: canvas.toDataURL('image/jpeg', opts.quality ?? 0.8),
+      });
+    }
+  } finally {
+    await seekTo(video, resumeAt).catch(() => undefined);
+  }
+  return out;
+}
@@ -0,0 +1,118 @@
+// lib/report/report.ts
+// 训练后发给球员的打印版报告：关键帧截图、雷达图、每项测量值对照 ScoreRule 目标、建议。
+// 分析页生成后存到 localStorage，报告页（/report）读出来排版，浏览器直接打印或存成 PDF。
+
+import type { CoachConfig, ScoreRule } from '../../config/coach';
+import type { AnalysisResult } from '../analyze/scoring';
+import type { FeatureKey } from '../analyze/features';
+import type { ShotPhaseName } from '../analyze/phases';
+import type { ShootingHand } from '../analyze/hand';
+import type { CameraView } from '../analyze/viewpoint';
+import type { ShotOutcome } from '../ball/rim';
+import { findRule, formatValue } from '../score/scorer';
+import { toCentimetres } from '../analyze/units';
+
+const REPORT_KEY = 'coaching-report:latest';
+
+export type ReportKeyFrame = {
+  phase: ShotPhaseName;
+  label: string;
+  ts: number; // ms，视频媒体时间
+  image: string; // JPEG data URL，已经画好骨架
+};
+
+export type ReportItem = {
+  key: string;
+  label: string;
+  score: number;
+  measured: boolean;
+  value?: number;
+  unit?: ScoreRule['unit'];
+  // 没量出来的原因
+  missing?: string;
+  rule?: ScoreRule;
+  // 校准过的距离类数值换成厘米（速度是厘米/秒）
+  cm?: number;
+};
+
+export type ReportBucket = {
+  name: string;
+  score: number;
+  items: ReportItem[];
+};
+
+export type CoachingReport = {
+  createdAt: string; // ISO 时间
+  clipName: string;
+  // 长视频里是第几次投篮，比如“第 2 次 / 共 5 次”；单次投篮为空
+  shotLabel?: string;
+  total: number;
+  outcome?: ShotOutcome;
+  hand?: ShootingHand;
+  view?: CameraView;
+  buckets: ReportBucket[];
+  suggestions: string[];
+  keyFrames: ReportKeyFrame[];
+};
+
+export function buildReport(
+  res: AnalysisResult,
+  coach: CoachConfig,
+  meta: { clipName: string; shotLabel?: string; keyFrames: ReportKeyFrame[] }
+): CoachingReport {
+  return {
+    createdAt: new Date().toISOString(),
+    clipName: meta.clipName,
+    shotLabel: meta.shotLabel,
+    total: res.total,
+    outcome: res.outcome,
+    hand: res.hand,
+    view: res.view?.view,
+    buckets: res.buckets.filter((b) => b.measured).map((b) => ({
+      name: b.name,
+      score: b.score,
+      items: b.items.map((it) => ({
+        key: it.key,
+        label: it.label,
+        score: it.score,
+        measured: it.measured,
+        value: it.value,
+        unit: it.unit as ScoreRule['unit'],
+        missing: it.measured ? undefined : res.missing[it.key as FeatureKey] ?? '未检测',
+        rule: findRule(coach, it.key),
+        cm: it.measured ? toCentimetres(it.value!, it.unit as ScoreRule['unit'], res.scale) ?? undefined : undefined,
+      })),
+    })),
+    suggestions: res.suggestions,
+    keyFrames: meta.keyFrames,
+  };
+}
+
+// 目标值的文字说明：“158.0度 ±10.0度” / “≥ 0.30秒” / “≤ 5.0%”
+export function ruleText(rule: ScoreRule | undefined): string {
+  if (!rule) return '—';
+  const target = formatValue(rule.target, rule.unit);
+  const better = rule.better ?? 'closer';
+  if (better === '>=|') return `≥ ${target}`;
+  if (better === '<=|') return `≤ ${target}`;
+  return `${target} ±${formatValue(rule.tolerance, rule.unit)}`;
+}
+
+// 截图比较大，存不下就算了，报告页会提示重新生成
+export function saveReport(report: CoachingReport): boolean {
+  try {
+    window.localStorage.setItem(REPORT_KEY, JSON.stringify(report));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function loadReport(): CoachingReport | null {
+  try {
+    const raw = window.localStorage.getItem(REPORT_KEY);
+    return raw ? (JSON.parse(raw) as CoachingReport) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,69 @@
+// lib/score/scorer.test.ts
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CONFIG, type CoachConfig } from '../../config/coach'
+import { scoreAngles, scoreByRule } from './scorer'
+
+const coach: CoachConfig = {
+  ...DEFAULT_CONFIG,
+  weights: [
+    {
+      name: '下肢',
+      weight: 1,
+      items: [
+        { key: 'kneeDepth', label: '膝角', weight: 1, rule: { target: 90, tolerance: 20, better: 'closer' } },
+        { key: 'extendSpeed', label: '伸膝', weight: 3, rule: { target: 200, tolerance: 100, better: '>=|' } },
+      ],
+    },
+    {
+      name: '弧线',
+      weight: 3,
+      items: [{ key: 'apexHeight', label: '最高点', weight: 1, rule: { target: 2, tolerance: 1, better: '<=|' } }],
+    },
+  ],
+}
+
+describe('scoreByRule', () => {
+  it('三种判法', () => {
+    expect(scoreByRule(90, { target: 90, tolerance: 20, better: 'closer' })).toBe(100)
+    expect(scoreByRule(100, { target: 90, tolerance: 20, better: 'closer' })).toBe(50)
+    expect(scoreByRule(150, { target: 200, tolerance: 100, better: '>=|' })).toBe(50)
+    expect(scoreByRule(300, { target: 200, tolerance: 100, better: '>=|' })).toBe(100)
+    expect(scoreByRule(2.5, { target: 2, tolerance: 1, better: '<=|' })).toBe(50)
+    // 差得太远有个保底分
+    expect(scoreByRule(0, { target: 90, tolerance: 20, better: 'closer' })).toBe(20)
+  })
+})
+
+describe('scoreAngles', () => {
+  it('bucket 内按 item 权重加权，总分按 bucket 权重加权', () => {
+    const r = scoreAngles({ kneeDepth: 100, extendSpeed: 200, apexHeight: 2.5 }, coach)
+    expect(r.buckets.map((b) => b.score)).toEqual([Math.round((50 + 100 * 3) / 4), 50])
+    expect(r.buckets.every((b) => b.measured)).toBe(true)
+    expect(r.total).toBe(Math.round((88 * 1 + 50 * 3) / 4))
+  })
+
+  it('没量出来的项不计分，也不拉低 bucket', () => {
+    const r = scoreAngles({ kneeDepth: 100, extendSpeed: NaN, apexHeight: 2 }, coach)
+    const legs = r.buckets[0]
+    expect(legs.items[1]).toMatchObject({ measured: false, score: 0 })
+    expect(legs.score).toBe(50)
+  })
+
+  it('整个 bucket 没量出来时标成未测，不拖累总分', () => {
+    const r = scoreAngles({ kneeDepth: 90, extendSpeed: 300 }, coach)
+    expect(r.buckets[1]).toMatchObject({ measured: false, score: 0 })
+    expect(r.total).toBe(100)
+  })
+
+  it('一项都没量出来时总分为 0，所有 bucket 都是未测', () => {
+    const r = scoreAngles({}, coach)
+    expect(r.total).toBe(0)
+    expect(r.buckets.some((b) => b.measured)).toBe(false)
+  })
+
+  it('itemScale 给看不准的项降权', () => {
+    const r = scoreAngles({ kneeDepth: 90, extendSpeed: 100 }, coach, { extendSpeed: 1 / 3 })
+    expect(r.buckets[0].items[1]).toMatchObject({ weight: 1, viewScale: 1 / 3 })
+    expect(r.buckets[0].score).toBe(Math.round((100 + 20) / 2))
+  })
+})
@@ -10,13 +10,20 @@ export type ScoreItem = {
   key: string
   label: string
   score: number
+  weight: number
   value?: number
   unit?: string
+  // 没量出来的项不参与加权
+  measured: boolean
+  // 机位折算系数（见 lib/analyze/viewpoint.ts），小于 1 时 weight 已经乘过
+  viewScale?: number
 }
 export type Bucket = {
   name: string
   score: number
   items: ScoreItem[]
+  // 一项都没量出来（比如没跟到球）时为 false，score 只是占位的 0，不要展示、不要存
+  measured: boolean
 }
 export type ScoreResult = {
   total: number
@@ -27,7 +34,7 @@ const clamp = (x: number, lo = 0, hi = 100) => Math.max(lo, Math.min(hi, x))
 const isNum = (x: any): x is number => typeof x === 'number' && Number.isFinite(x)
 const FLOOR = 20
 
-function scoreByRule(value: number | undefined, rule: CoachScoreRule): number {
+export function scoreByRule(value: number | undefined, rule: CoachScoreRule): number {
   if (!isNum(value)) return FLOOR
   const tgt = rule.target
   const tol = Math.max(1e-6, rule.tolerance ?? 0)
@@ -51,45 +58,131 @@ function scoreByRule(value: number | undefined, rule: CoachScoreRule): number {
   return clamp(100 * (1 - (value - tgt) / tol))
 }
 
+// 按 key 在各个 bucket 里找对应的打分规则
+export function findRule(coach: CoachConfig, key: string): CoachScoreRule | undefined {
+  for (const bucket of coach.weights) {
+    const it = bucket.items.find((x) => x.key === key)
+    if (it) return it.rule
+  }
+  return undefined
+}
+
 export type FeatureVector = {
   kneeDepth?: number
-  extendSpeed?: number
+  extendSpeed?: number // 伸膝角速度峰值，度/秒
+  extendSpeedMean?: number // 伸膝角速度均值，只展示不打分
   releaseAngle?: number
   wristFlex?: number
   followThrough?: number
   elbowCurve?: number
   stability?: number
   alignment?: number
+  // 球飞行轨迹，见 lib/ball/trajectory.ts
+  launchAngle?: number // 度
+  launchSpeed?: number // 躯干长度/秒
+  apexHeight?: number // 躯干长度
+  entryAngle?: number // 度
 }
 
-export function scoreAngles(features: FeatureVector, coach: CoachConfig = DEFAULT_CONFIG): ScoreResult {
+// itemScale：按 key 给 item 权重再乘一个系数，比如当前机位看不太准的指标降权
+export function scoreAngles(
+  features: FeatureVector,
+  coach: CoachConfig = DEFAULT_CONFIG,
+  itemScale: Partial<Record<string, number>> = {}
+): ScoreResult {
   const buckets: Bucket[] = []
   const weights = coach.weights as WeightBucket[]
+  const bucketWeights: number[] = []
 
   for (const bucket of weights) {
     const items: ScoreItem[] = []
     for (const it of bucket.items) {
       const v = (features as any)[it.key] as number | undefined
-      const score = scoreByRule(v, it.rule)
+      const measured = isNum(v)
+      const scale = itemScale[it.key] ?? 1
       items.push({
         key: it.key,
         label: it.label,
-        score: Math.round(score),
+        score: measured ? Math.round(scoreByRule(v, it.rule)) : 0,
+        weight: it.weight * scale,
         value: v,
         unit: it.rule.unit,
+        measured,
+        ...(scale !== 1 ? { viewScale: scale } : {}),
       })
     }
-    const bucketScore = items.length ? Math.round(items.reduce((s, x) => s + x.score, 0) / items.length) : 0
-    buckets.push({ name: bucket.name, score: bucketScore, items })
+    // bucket 内按 item 权重加权，没量出来的项不算
+    const counted = items.filter((x) => x.measured)
+    const itemWeight = counted.reduce((s, x) => s + x.weight, 0)
+    const bucketScore =
+      itemWeight > 0 ? Math.round(counted.reduce((s, x) => s + x.score * x.weight, 0) / itemWeight) : 0
+    buckets.push({ name: bucket.name, score: bucketScore, items, measured: counted.length > 0 })
+    // 整个 bucket 都没量出来（比如没跟到球），不拖累总分
+    bucketWeights.push(counted.length ? bucket.weight ?? 1 : 0)
   }
 
-  const totalWeight = buckets.reduce((s, b, i) => s + (weights?.[i]?.weight ?? 1), 0)
+  const totalWeight = bucketWeights.reduce((s, w) => s + w, 0)
   const total =
     totalWeight > 0
-      ? Math.round(
-          buckets.reduce((s, b, i) => s + b.score * (weights?.[i]?.weight ?? 1), 0) / totalWeight,
-        )
+      ? Math.round(buckets.reduce((s, b, i) => s + b.score * bucketWeights[i], 0) / totalWeight)
       : 0
 
   return { total: clamp(total), buckets }
 }
+
+const UNIT_TEXT: Record<string, string> = {
+  deg: '度',
+  'deg/s': '度/秒',
+  pct: '%',
+  px: 'px',
+  s: '秒',
+  torso: '躯干',
+  'torso/s': '躯干/秒',
+  shin: '小腿',
+  'shin/s': '小腿/秒',
+  cm: 'cm',
+  'cm/s': 'cm/s',
+}
+
+// 前端展示用：pct 存的是比例，显示时乘 100
+export function formatValue(value: number | undefined, unit?: string): string {
+  if (!isNum(value)) return '未检测'
+  if (unit === 'pct') return `${(value * 100).toFixed(1)}%`
+  const digits = unit === 's' || unit === 'torso' || unit === 'shin' ? 2 : 1
+  return `${value.toFixed(digits)}${unit ? UNIT_TEXT[unit] ?? unit : ''}`
+}
+
+// 每项低于这个分数就给建议
+const SUGGEST_BELOW = 70
+
+const SUGGESTIONS: Record<string, string> = {
+  kneeDepth: '下蹲深度不到位，膝角往目标值靠一靠，腿部蓄力更充分。',
+  extendSpeed: '起跳伸膝再快一点，把腿部力量更快地传到出手。',
+  releaseAngle: '出手时手臂夹角再打开一点，肘部伸展到位再出手。',
+  wristFlex: '出手时手腕主动下压，让球带上后旋。',
+  followThrough: '出手后手臂保持伸直、手腕下压多停一会儿再收手。',
+  elbowCurve: '肘部离身体有点远，试着贴近胸前再出手。',
+  stability: '出手时保持身体别往一侧压，重心尽量在两脚中间。',
+  alignment: '脚、髋、肩、手腕尽量在一条线上对准篮筐。',
+  launchAngle: '球的出手角度偏离理想弧线，试着把球往更高的弧线送。',
+  launchSpeed: '出手力量不稳定，注意用腿带动而不是只用手臂推。',
+  apexHeight: '弧线最高点不合适，弧线太平容易打前框。',
+  entryAngle: '进筐角偏平，提高出手弧线让球更垂直地落进篮筐。',
+}
+
+// 这些项看的是投篮手那一侧的手臂
+const ARM_KEYS = ['releaseAngle', 'wristFlex', 'followThrough', 'elbowCurve']
+const HAND_TEXT = { left: '左手', right: '右手' }
+
+export function suggestionsFor(result: ScoreResult, hand?: 'left' | 'right'): string[] {
+  const out: string[] = []
+  for (const b of result.buckets) {
+    for (const it of b.items) {
+      if (!it.measured || it.score >= SUGGEST_BELOW) continue
+      const text = SUGGESTIONS[it.key]
+      if (!text) continue
+      out.push(hand && ARM_KEYS.includes(it.key) ? `（投篮手：${HAND_TEXT[hand]}）${text}` : text)
+    }
+  }
+  return out
+}
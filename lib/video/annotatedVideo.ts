@@ -0,0 +1,198 @@
+// lib/video/annotatedVideo.ts
+// 导出带标注的视频：原视频每一帧 + 骨架、关节角度、动作阶段，最后停几秒分数卡，
+// 在浏览器里用 canvas.captureStream + MediaRecorder 直接录成 WebM，不经过服务器。
+// MediaRecorder 按真实时间录，所以是把视频从头实时播一遍边播边画，耗时约等于视频时长。
+
+import type { AnalysisExport, ExportFrame, ExportShot } from '../export/analysisExport';
+import type { BallFrame } from '../ball/ballTracker';
+import { OUTCOME_LABELS } from '../ball/rim';
+import { PHASE_LABELS } from '../analyze/phases';
+import { seekTo } from './frameSampler';
+import {
+  drawAngleLabels,
+  drawBall,
+  drawPhaseMarker,
+  drawRim,
+  drawScoreCard,
+  drawSkeleton,
+  type ScoreCardData,
+} from './overlay';
+
+export type AnnotatedVideoOpts = {
+  ball?: BallFrame[];
+  // 结尾分数卡停留秒数
+  cardSec?: number;
+  // 0~1
+  onProgress?: (ratio: number) => void;
+  shouldStop?: () => boolean;
+};
+
+const RECORDER_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// 浏览器支持的 WebM 编码，都不支持时返回 null
+export function pickRecorderMime(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDER_TYPES.find((t) => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+// 按时间找最近的一项，离得太远（中间没识别到）就不画
+function nearest<T extends { ts: number }>(xs: T[], ts: number, maxGapMs: number): T | null {
+  let lo = 0;
+  let hi = xs.length - 1;
+  if (hi < 0) return null;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid].ts < ts) lo = mid + 1;
+    else hi = mid;
+  }
+  let best = xs[lo];
+  if (lo > 0 && Math.abs(xs[lo - 1].ts - ts) < Math.abs(best.ts - ts)) best = xs[lo - 1];
+  return Math.abs(best.ts - ts) <= maxGapMs ? best : null;
+}
+
+function finalCard(doc: AnalysisExport): ScoreCardData {
+  const agg = doc.aggregate;
+  const first = doc.shots[0];
+  if (agg) {
+    return {
+      title: `共 ${doc.shots.length} 次投篮（平均）`,
+      total: Math.round(agg.total.mean),
+      lines: [
+        ...Object.entries(agg.buckets).map(([name, st]) => `${name}  ${Math.round(st.mean)}`),
+        `逐次：${doc.shots.map((s) => s.total).join(' / ')}`,
+      ],
+    };
+  }
+  return {
+    title: first?.outcome ? `本次投篮 · ${OUTCOME_LABELS[first.outcome]}` : '本次投篮',
+    total: first?.total ?? 0,
+    lines: (first?.buckets ?? []).filter((b) => b.measured).map((b) => `${b.name}  ${b.score}`),
+  };
+}
+
+function releaseTs(shot: ExportShot): number {
+  return shot.phases.find((ph) => ph.name === 'release')?.startTs ?? Infinity;
+}
+
+function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  doc: AnalysisExport,
+  frame: ExportFrame | null,
+  ball: BallFrame | null,
+  ts: number
+) {
+  const rim = doc.analysis.rim;
+  if (rim) drawRim(ctx, rim);
+  if (ball) drawBall(ctx, ball);
+  if (!frame) return;
+
+  const shot = doc.shots[frame.shot] ?? null;
+  drawSkeleton(ctx, frame.keypoints, shot?.hand ?? null);
+  drawAngleLabels(ctx, frame.keypoints, [
+    { joint: 'left_knee', value: frame.angles.kneeL },
+    { joint: 'right_knee', value: frame.angles.kneeR },
+    { joint: 'left_elbow', value: frame.angles.elbowL },
+    { joint: 'right_elbow', value: frame.angles.elbowR },
+  ]);
+
+  const parts: string[] = [];
+  if (doc.shots.length > 1 && shot) parts.push(`第 ${shot.index + 1} 次`);
+  if (frame.phase) parts.push(PHASE_LABELS[frame.phase]);
+  if (parts.length) drawPhaseMarker(ctx, parts.join(' · '), frame.phase === 'release');
+
+  // 出手之后右上角先亮出这一次的分数
+  if (shot && ts >= releaseTs(shot)) {
+    drawScoreCard(ctx, { title: '', total: shot.total, lines: [] }, true);
+  }
+}
+
+export async function renderAnnotatedVideo(
+  video: HTMLVideoElement,
+  doc: AnalysisExport,
+  opts: AnnotatedVideoOpts = {}
+): Promise<Blob> {
+  const mimeType = pickRecorderMime();
+  if (!mimeType) throw new Error('当前浏览器不支持录制 WebM 视频');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法创建画布');
+
+  const fps = doc.analysis.offlineFps ?? 30;
+  const maxGapMs = 1500 / fps;
+  const ball = opts.ball ?? [];
+  const cardMs = (opts.cardSec ?? 3) * 1000;
+  const durationMs = (video.duration || 0) * 1000;
+
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const wasMuted = video.muted;
+  video.pause();
+  await seekTo(video, 0);
+  video.muted = true;
+
+  const drawVideoFrame = () => {
+    const ts = video.currentTime * 1000;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    drawAnnotations(ctx, doc, nearest(doc.frames, ts, maxGapMs), nearest(ball, ts, maxGapMs), ts);
+  };
+
+  try {
+    recorder.start(250);
+    await video.play();
+
+    // 1) 实时播一遍，每个动画帧画一次
+    await new Promise<void>((resolve) => {
+      const tick = () => {
+        if (opts.shouldStop?.() || video.ended || video.paused) {
+          resolve();
+          return;
+        }
+        drawVideoFrame();
+        opts.onProgress?.(Math.min(1, (video.currentTime * 1000) / (durationMs + cardMs)));
+        requestAnimationFrame(tick);
+      };
+      requestAnimationFrame(tick);
+    });
+    video.pause();
+
+    // 2) 最后一帧上盖分数卡，停几秒
+    if (!opts.shouldStop?.()) {
+      drawVideoFrame();
+      drawScoreCard(ctx, finalCard(doc));
+      const t0 = performance.now();
+      await new Promise<void>((resolve) => {
+        const hold = () => {
+          const held = performance.now() - t0;
+          opts.onProgress?.(Math.min(1, (durationMs + held) / (durationMs + cardMs)));
+          if (held >= cardMs || opts.shouldStop?.()) {
+            resolve();
+            return;
+          }
+          // 画面不变也要持续出帧，不然有的浏览器录出来的结尾只有一帧
+          drawVideoFrame();
+          drawScoreCard(ctx, finalCard(doc));
+          requestAnimationFrame(hold);
+        };
+        requestAnimationFrame(hold);
+      });
+    }
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach((t) => t.stop());
+    video.muted = wasMuted;
+  }
+
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
@@ -0,0 +1,72 @@
+// lib/video/frameSampler.ts
+// 离线逐帧分析用：不靠实时播放，而是按固定采样率一帧一帧 seek 过去，
+// 每帧都等识别完再走下一帧，慢机器也不会丢帧，同一段视频两次跑出来的序列完全一样。
+
+export type SampleProgress = {
+  done: number;
+  total: number;
+};
+
+export type SampleOpts = {
+  fps: number;
+  onProgress?: (p: SampleProgress) => void;
+  // 外面点“停止”时置 true
+  shouldStop?: () => boolean;
+};
+
+// seek 到指定时间，等浏览器把这一帧解出来
+export function seekTo(video: HTMLVideoElement, timeSec: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (Math.abs(video.currentTime - timeSec) < 1e-4 && video.readyState >= 2) {
+      resolve();
+      return;
+    }
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('seek failed'));
+    };
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = timeSec;
+  });
+}
+
+// 固定采样时间点，只由时长和采样率决定，保证可复现
+export function sampleTimes(durationSec: number, fps: number): number[] {
+  if (!(durationSec > 0) || !(fps > 0)) return [];
+  const n = Math.floor(durationSec * fps);
+  const out: number[] = [];
+  for (let i = 0; i <= n; i++) {
+    const t = i / fps;
+    if (t > durationSec) break;
+    out.push(t);
+  }
+  return out;
+}
+
+// 依次 seek 每个采样点，onFrame 里拿到的是媒体时间（毫秒）
+export async function sampleFrames(
+  video: HTMLVideoElement,
+  onFrame: (mediaTsMs: number) => Promise<void>,
+  opts: SampleOpts
+): Promise<number> {
+  video.pause();
+  const times = sampleTimes(video.duration, opts.fps);
+  let done = 0;
+  for (const t of times) {
+    if (opts.shouldStop?.()) break;
+    await seekTo(video, t);
+    await onFrame(t * 1000);
+    done++;
+    opts.onProgress?.({ done, total: times.length });
+  }
+  return done;
+}
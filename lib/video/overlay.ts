@@ -0,0 +1,187 @@
+// lib/video/overlay.ts
+// 画在视频上面的东西：骨架、球、篮筐、角度标注、阶段、分数卡。
+// 分析页的实时叠加和导出带标注的视频用的是同一套画法，两边看到的一模一样。
+
+import type { PoseKeypoint } from '../pose/poseEngine';
+import { boxOf } from '../pose/tracker';
+import { ALL_CONNECTIONS, LOWER_COLOR, TORSO_COLOR, UPPER_COLOR } from '../pose/skeleton';
+import type { BallFrame } from '../ball/ballTracker';
+import type { Rim } from '../ball/rim';
+import type { ShootingHand } from '../analyze/hand';
+
+const MIN_SCORE = 0.28;
+
+function pointColor(name: string | undefined): string {
+  if (
+    name === 'left_shoulder' ||
+    name === 'right_shoulder' ||
+    name === 'left_hip' ||
+    name === 'right_hip'
+  ) {
+    return TORSO_COLOR;
+  }
+  if (
+    name?.startsWith('left_knee') ||
+    name?.startsWith('right_knee') ||
+    name?.startsWith('left_ankle') ||
+    name?.startsWith('right_ankle') ||
+    name?.startsWith('left_foot') ||
+    name?.startsWith('right_foot') ||
+    name?.startsWith('left_heel') ||
+    name?.startsWith('right_heel')
+  ) {
+    return LOWER_COLOR;
+  }
+  return UPPER_COLOR;
+}
+
+// 骨架：点 + 线，投篮手那条胳膊加粗
+export function drawSkeleton(
+  ctx: CanvasRenderingContext2D,
+  keypoints: PoseKeypoint[],
+  hand: ShootingHand | null = null
+) {
+  const { width, height } = ctx.canvas;
+  const radius = 3;
+
+  for (const kp of keypoints) {
+    if (!kp) continue;
+    if ((kp.score ?? 0) < MIN_SCORE) continue;
+    ctx.fillStyle = pointColor(kp.name);
+    ctx.beginPath();
+    ctx.arc(kp.x, kp.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  for (const { pair, color } of ALL_CONNECTIONS) {
+    const [aName, bName] = pair;
+    const a = keypoints.find((k) => k.name === aName);
+    const b = keypoints.find((k) => k.name === bName);
+    if (!a || !b) continue;
+    if ((a.score ?? 0) < MIN_SCORE || (b.score ?? 0) < MIN_SCORE) continue;
+    // 识别飞了的长线不画
+    const dist = Math.hypot(a.x - b.x, a.y - b.y);
+    if (dist > Math.min(width, height) * 0.6) continue;
+
+    const onShootingArm =
+      !!hand && aName.startsWith(`${hand}_`) && bName.startsWith(`${hand}_`) && color === UPPER_COLOR;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = onShootingArm ? 4 : 2;
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+  }
+}
+
+// 画面里的其他人：骨架画淡一点，头顶标上跟踪 ID，方便点选
+export function drawOtherPerson(ctx: CanvasRenderingContext2D, keypoints: PoseKeypoint[], label: string) {
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  drawSkeleton(ctx, keypoints);
+  ctx.restore();
+  const box = boxOf(keypoints, MIN_SCORE);
+  if (!box) return;
+  ctx.font = '12px sans-serif';
+  ctx.fillStyle = 'rgba(226, 232, 240, 0.8)';
+  ctx.textAlign = 'center';
+  ctx.fillText(label, (box.x0 + box.x1) / 2, box.y0 - 6);
+  ctx.textAlign = 'start';
+}
+
+export function drawBall(ctx: CanvasRenderingContext2D, ball: BallFrame) {
+  ctx.strokeStyle = ball.predicted ? 'rgba(251, 146, 60, 0.5)' : '#fb923c';
+  ctx.lineWidth = 2;
+  ctx.setLineDash(ball.predicted ? [4, 4] : []);
+  ctx.beginPath();
+  ctx.arc(ball.x, ball.y, ball.r, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+export function drawRim(ctx: CanvasRenderingContext2D, r: Rim) {
+  ctx.strokeStyle = r.source === 'manual' ? '#facc15' : 'rgba(250, 204, 21, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(r.x - r.halfWidth, r.y);
+  ctx.lineTo(r.x + r.halfWidth, r.y);
+  ctx.stroke();
+}
+
+// 字号跟着画面大小走，竖屏手机视频也看得清
+function fontPx(ctx: CanvasRenderingContext2D, ratio = 0.03): number {
+  return Math.max(12, Math.round(Math.min(ctx.canvas.width, ctx.canvas.height) * ratio));
+}
+
+// 带半透明底的文字
+function label(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number, color = '#f8fafc') {
+  ctx.font = `${size}px sans-serif`;
+  const w = ctx.measureText(text).width;
+  const pad = Math.round(size * 0.25);
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.7)';
+  ctx.fillRect(x - pad, y - size - pad / 2, w + pad * 2, size + pad * 1.5);
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+}
+
+export type JointAngleLabel = {
+  joint: string; // 标在哪个关键点旁边
+  value: number | undefined; // 度
+};
+
+// 在关节旁边标角度
+export function drawAngleLabels(ctx: CanvasRenderingContext2D, keypoints: PoseKeypoint[], labels: JointAngleLabel[]) {
+  const size = fontPx(ctx, 0.022);
+  for (const { joint, value } of labels) {
+    if (value === undefined || !Number.isFinite(value)) continue;
+    const k = keypoints.find((p) => p.name === joint);
+    if (!k || (k.score ?? 0) < MIN_SCORE) continue;
+    label(ctx, `${Math.round(value)}°`, k.x + 8, k.y - 4, size);
+  }
+}
+
+// 左上角：第几次投篮 + 当前阶段
+export function drawPhaseMarker(ctx: CanvasRenderingContext2D, text: string, highlight = false) {
+  const size = fontPx(ctx);
+  label(ctx, text, size, size * 1.6, size, highlight ? '#facc15' : '#f8fafc');
+}
+
+export type ScoreCardData = {
+  title: string;
+  total: number;
+  lines: string[];
+};
+
+// 分数卡：compact 时缩在右上角，否则盖在画面中间
+export function drawScoreCard(ctx: CanvasRenderingContext2D, card: ScoreCardData, compact = false) {
+  const { width, height } = ctx.canvas;
+  const size = fontPx(ctx, compact ? 0.026 : 0.04);
+  const lines = compact ? [] : card.lines;
+  const lineH = size * 1.4;
+  const boxW = compact ? size * 9 : Math.min(width * 0.85, size * 18);
+  const boxH = lineH * (2.4 + lines.length) + size;
+  const x = compact ? width - boxW - size : (width - boxW) / 2;
+  const y = compact ? size : (height - boxH) / 2;
+
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.fillRect(x, y, boxW, boxH);
+  ctx.strokeStyle = 'rgba(56, 189, 248, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, boxW, boxH);
+
+  let cy = y + size * 1.5;
+  ctx.fillStyle = '#cbd5e1';
+  ctx.font = `${size}px sans-serif`;
+  ctx.fillText(card.title, x + size / 2, cy);
+  cy += lineH * 1.2;
+  ctx.fillStyle = '#67e8f9';
+  ctx.font = `bold ${Math.round(size * 1.4)}px sans-serif`;
+  ctx.fillText(`总分 ${card.total}`, x + size / 2, cy);
+  ctx.font = `${size}px sans-serif`;
+  ctx.fillStyle = '#e2e8f0';
+  for (const ln of lines) {
+    cy += lineH;
+    ctx.fillText(ln, x + size / 2, cy);
+  }
+}